@@ -0,0 +1,93 @@
+// Local stand-in for the report generation workflow.
+//
+//   npm run mock:webhook
+//   VITE_REPORT_WEBHOOK_URL=http://localhost:8787/webhook npm run dev
+//
+// Behaviour can be tuned with environment variables:
+//   MOCK_WEBHOOK_PORT      port to listen on (default 8787)
+//   MOCK_WEBHOOK_DELAY_MS  how long to "generate" each report (default 1500)
+//   MOCK_WEBHOOK_MODE      "sync" (default) replies with the report,
+//                          "async" replies 202 Accepted,
+//                          "fail" replies 500,
+//                          "reject" replies 422 with a validation message
+import { createServer } from "node:http";
+
+const port = Number(process.env.MOCK_WEBHOOK_PORT || 8787);
+const delayMs = Number(process.env.MOCK_WEBHOOK_DELAY_MS || 1500);
+const mode = process.env.MOCK_WEBHOOK_MODE || "sync";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "*",
+};
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { ...corsHeaders, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req) {
+  // Reuse the fetch Request parser for multipart and urlencoded bodies
+  const request = new Request(`http://localhost${req.url}`, {
+    method: req.method,
+    headers: req.headers,
+    body: req,
+    duplex: "half",
+  });
+  return request.formData();
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  if (req.method !== "POST") {
+    sendJson(res, 405, { message: "Use POST" });
+    return;
+  }
+
+  let form;
+  try {
+    form = await readForm(req);
+  } catch (error) {
+    sendJson(res, 400, { message: `Could not parse request body: ${error.message}` });
+    return;
+  }
+
+  const fields = Object.fromEntries(
+    [...form.entries()].filter(([, value]) => typeof value === "string")
+  );
+  const csv = form.get("csv");
+  const csvLines = csv && typeof csv !== "string" ? (await csv.text()).split(/\r?\n/).filter(Boolean).length - 1 : 0;
+
+  console.log(`[mock-webhook] job ${fields.jobId}: ${fields.location} ${fields.dateFrom}..${fields.dateTo}` +
+    (csvLines ? ` (${csvLines} CSV rows)` : ""));
+
+  await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+  switch (mode) {
+    case "async":
+      sendJson(res, 202, { accepted: true, jobId: fields.jobId });
+      return;
+    case "fail":
+      sendJson(res, 500, { message: "Mock workflow failure" });
+      return;
+    case "reject":
+      sendJson(res, 422, { message: "Mock workflow rejected the site list" });
+      return;
+    default:
+      sendJson(res, 200, {
+        location: fields.location,
+        email: fields.email,
+        urlOfSecurityReport: `https://example.com/reports/${fields.jobId}.pdf`,
+      });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[mock-webhook] listening on http://localhost:${port}/webhook (mode: ${mode})`);
+});
@@ -3,24 +3,45 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/components/AuthProvider";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import AgentChat from "./pages/AgentChat";
+import ChatHistory from "./pages/ChatHistory";
+import ClientDetail from "./pages/ClientDetail";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      {/* Removed duplicate Sonner Toaster import and usage */}
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        {/* Removed duplicate Sonner Toaster import and usage */}
+        <BrowserRouter>
+          <Routes>
+            <Route path="/login" element={<Login />} />
+            <Route path="/" element={<ProtectedRoute><Index /></ProtectedRoute>} />
+            <Route
+              path="/clients/:companyName"
+              element={<ProtectedRoute permission="sentiment:view"><ClientDetail /></ProtectedRoute>}
+            />
+            <Route
+              path="/chat"
+              element={<ProtectedRoute permission="chats:start"><AgentChat /></ProtectedRoute>}
+            />
+            <Route
+              path="/chat/history"
+              element={<ProtectedRoute permission="chats:history"><ChatHistory /></ProtectedRoute>}
+            />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
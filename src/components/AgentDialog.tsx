@@ -0,0 +1,166 @@
+import { ReactNode, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useAgents, useSaveAgent } from "@/hooks/use-agents";
+import {
+  Agent,
+  AgentFields,
+  agentSchema,
+  AgentValues,
+  isAssistantIdTaken,
+  toAgentValues,
+} from "@/utils/agentUtils";
+
+interface AgentDialogProps {
+  trigger: ReactNode;
+  // The agent to edit; a new one is added when omitted
+  agent?: Agent;
+}
+
+export const AgentDialog = ({ trigger, agent }: AgentDialogProps) => {
+  const { toast } = useToast();
+  const { data: agents = [] } = useAgents();
+  const saveAgent = useSaveAgent();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<AgentValues, unknown, AgentFields>({
+    resolver: zodResolver(agentSchema),
+    defaultValues: toAgentValues(agent ?? null),
+  });
+
+  const industries = [
+    ...new Set(agents.map((candidate) => candidate.industry_classification?.trim()).filter(Boolean)),
+  ].sort();
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) form.reset(toAgentValues(agent ?? null));
+    setOpen(next);
+  };
+
+  const onSubmit = async (values: AgentFields) => {
+    // The unique index has the final say; this catches the common case before the round trip
+    if (isAssistantIdTaken(agents, values.assistant_id, agent?.id)) {
+      form.setError("assistant_id", { message: "Another agent already uses this assistant ID" });
+      return;
+    }
+
+    try {
+      await saveAgent.mutateAsync({ id: agent?.id, agent: values });
+      toast({
+        title: agent ? "Agent updated" : "Agent added",
+        description: `${values.assistant_name} saved.`,
+      });
+      setOpen(false);
+    } catch (error) {
+      console.error("Error saving agent:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save agent",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{agent ? "Edit agent" : "New agent"}</DialogTitle>
+              <DialogDescription>Agents are listed in the directory under their industry.</DialogDescription>
+            </DialogHeader>
+
+            <FormField
+              control={form.control}
+              name="assistant_name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="assistant_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Assistant ID</FormLabel>
+                  <FormControl>
+                    <Input className="font-mono" autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormDescription>The ID the assistant backend knows this agent by.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="industry_classification"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Industry</FormLabel>
+                  <FormControl>
+                    <Input list="agent-industries" autoComplete="off" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <datalist id="agent-industries">
+                    {industries.map((industry) => (
+                      <option key={industry} value={industry} />
+                    ))}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="assistant_description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={saveAgent.isPending}>
+                {saveAgent.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
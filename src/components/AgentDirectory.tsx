@@ -0,0 +1,241 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Archive, ArchiveRestore, Bot, MessageSquare, Pencil, Plus, Search } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { useAgents, useSetAgentRetired } from "@/hooks/use-agents";
+import { useRole } from "@/hooks/use-role";
+import { Agent, groupAgentsByIndustry, isAgentRetired, matchesAgentSearch } from "@/utils/agentUtils";
+import { chatPath } from "@/utils/chatUtils";
+import { AgentDialog } from "./AgentDialog";
+
+const AgentCard = ({ agent, canManage }: { agent: Agent; canManage: boolean }) => {
+  const { toast } = useToast();
+  const setRetired = useSetAgentRetired();
+  const retired = isAgentRetired(agent);
+  const name = agent.assistant_name || agent.assistant_id || "Unnamed agent";
+
+  const handleSetRetired = async (next: boolean) => {
+    try {
+      await setRetired.mutateAsync({ id: agent.id, retired: next });
+      toast({ title: next ? "Agent retired" : "Agent restored", description: name });
+    } catch (error) {
+      console.error("Error updating agent:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update agent",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className={`rounded-lg border p-4 space-y-2 ${retired ? "opacity-60" : ""}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-medium truncate">{name}</div>
+          <div className="text-xs text-muted-foreground font-mono truncate">{agent.assistant_id}</div>
+        </div>
+        {retired && (
+          <Badge variant="outline" className="shrink-0">
+            Retired {format(parseISO(agent.retired_at), "PP")}
+          </Badge>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground line-clamp-3">
+        {agent.assistant_description || "No description"}
+      </p>
+      <div className="flex gap-2 pt-1">
+        {!retired && (
+          <Button variant="ghost" size="sm" className="h-8" asChild>
+            <Link to={chatPath({ assistantId: agent.assistant_id })} className="flex items-center gap-1">
+              <MessageSquare className="h-3 w-3" />
+              Chat
+            </Link>
+          </Button>
+        )}
+        {canManage && (
+          <>
+            <AgentDialog
+              agent={agent}
+              trigger={
+                <Button variant="ghost" size="sm" className="h-8 flex items-center gap-1">
+                  <Pencil className="h-3 w-3" />
+                  Edit
+                </Button>
+              }
+            />
+            {retired ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 flex items-center gap-1"
+                disabled={setRetired.isPending}
+                onClick={() => handleSetRetired(false)}
+              >
+                <ArchiveRestore className="h-3 w-3" />
+                Restore
+              </Button>
+            ) : (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 flex items-center gap-1">
+                    <Archive className="h-3 w-3" />
+                    Retire
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Retire {name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      It will no longer be offered for new chats. Past conversations are kept and it can be restored
+                      later.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => handleSetRetired(true)}>Retire</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const AgentDirectory = () => {
+  const { data: agents = [], isLoading, error } = useAgents();
+  const { can } = useRole();
+  const canManage = can("agents:manage");
+  const [search, setSearch] = useState("");
+  const [showRetired, setShowRetired] = useState(false);
+
+  const activeCount = agents.filter((agent) => !isAgentRetired(agent)).length;
+  const groups = useMemo(
+    () =>
+      groupAgentsByIndustry(
+        agents.filter((agent) => (showRetired || !isAgentRetired(agent)) && matchesAgentSearch(agent, search))
+      ),
+    [agents, search, showRetired]
+  );
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Agents</CardTitle>
+          <CardDescription>Loading agents...</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Agents</CardTitle>
+          <CardDescription>Error loading agents</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="text-destructive">{error instanceof Error ? error.message : "An error occurred"}</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Bot className="h-5 w-5" />
+            Agents
+          </CardTitle>
+          <CardDescription>{activeCount} AdConversion assistants in service</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link to={chatPath()} className="flex items-center gap-2">
+              <MessageSquare className="h-4 w-4" />
+              Conversations
+            </Link>
+          </Button>
+          {canManage && (
+            <AgentDialog
+              trigger={
+                <Button size="sm" className="flex items-center gap-2">
+                  <Plus className="h-4 w-4" />
+                  New agent
+                </Button>
+              }
+            />
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative w-full max-w-sm">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search agents..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          {canManage && (
+            <div className="flex items-center gap-2">
+              <Switch id="show-retired" checked={showRetired} onCheckedChange={setShowRetired} />
+              <Label htmlFor="show-retired">Show retired</Label>
+            </div>
+          )}
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            {agents.length === 0 ? "No agents yet" : "No agents match your search"}
+          </div>
+        ) : (
+          groups.map((group) => (
+            <section key={group.industry} className="space-y-3">
+              <h3 className="text-sm font-semibold text-muted-foreground">
+                {group.industry} ({group.agents.length})
+              </h3>
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {group.agents.map((agent) => (
+                  <AgentCard key={agent.id} agent={agent} canManage={canManage} />
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,50 @@
+import { Link } from "react-router-dom";
+import { BroadcastBanner } from "@/components/BroadcastBanner";
+import { BroadcastInbox } from "@/components/BroadcastInbox";
+import { UserMenu } from "@/components/UserMenu";
+import { useBroadcastSubscription } from "@/hooks/use-broadcasts";
+import { config } from "@/lib/config";
+
+const { branding } = config;
+
+export function AppLayout({ children }: { children: React.ReactNode }) {
+  useBroadcastSubscription();
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      {/* Header with logo and title */}
+      <header className="border-b border-border/40 p-4">
+        <div className="container mx-auto flex items-center">
+          <Link to="/" className="flex items-center">
+            <img 
+              src={branding.logoUrl} 
+              alt={`${branding.shortName} Logo`} 
+              className="h-12 mr-4"
+            />
+            <div className="text-xl font-bold text-primary">
+              {branding.companyName}
+            </div>
+          </Link>
+          <div className="ml-auto flex items-center gap-4">
+            <div className="text-sm font-medium">{branding.appName}</div>
+            <BroadcastInbox />
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+      <BroadcastBanner />
+      
+      {/* Main content */}
+      <main className="container mx-auto py-8 px-4">
+        {children}
+      </main>
+      
+      {/* Footer */}
+      <footer className="border-t border-border/40 mt-auto py-4">
+        <div className="container mx-auto text-center text-xs text-muted-foreground">
+          {branding.shortName} - {branding.productName} &copy; {new Date().getFullYear()}
+        </div>
+      </footer>
+    </div>
+  );
+}
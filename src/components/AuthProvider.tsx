@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext } from "@/hooks/use-auth";
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  // The user the cached queries were loaded for; undefined until the session is known
+  const cachedUserId = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    // Subscribe first so a sign-in completed by a magic link redirect is not missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+      setLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Cached reports, chats and sentiment belong to whoever loaded them; drop
+  // them when someone else signs in on the same browser
+  const userId = session?.user.id ?? null;
+  useEffect(() => {
+    if (loading) return;
+    if (cachedUserId.current !== undefined && cachedUserId.current !== userId) {
+      queryClient.clear();
+    }
+    cachedUserId.current = userId;
+  }, [loading, userId, queryClient]);
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+    queryClient.clear();
+  };
+
+  return (
+    <AuthContext.Provider value={{ session, user: session?.user ?? null, loading, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
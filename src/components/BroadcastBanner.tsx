@@ -0,0 +1,36 @@
+import { Megaphone, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useBroadcastInbox } from "@/hooks/use-broadcasts";
+
+/** The newest unread broadcast, until it is dismissed. */
+export function BroadcastBanner() {
+  const { unread, markRead } = useBroadcastInbox();
+  const latest = unread[0];
+
+  if (!latest) return null;
+
+  return (
+    <div className="border-b border-border/40 bg-primary/10">
+      <div className="container mx-auto flex items-start gap-3 px-4 py-2 text-sm">
+        <Megaphone className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+        <div className="flex-1 min-w-0">
+          <span className="line-clamp-2 whitespace-pre-wrap">{latest.content}</span>
+          {unread.length > 1 && (
+            <span className="text-xs text-muted-foreground">
+              {unread.length - 1} more unread in announcements
+            </span>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          aria-label="Dismiss announcement"
+          onClick={() => markRead([latest.id])}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { ReactNode, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useSendBroadcast } from "@/hooks/use-broadcasts";
+
+const MAX_BROADCAST_LENGTH = 1000;
+
+export const BroadcastComposeDialog = ({ trigger }: { trigger: ReactNode }) => {
+  const { toast } = useToast();
+  const sendBroadcast = useSendBroadcast();
+  const [open, setOpen] = useState(false);
+  const [content, setContent] = useState("");
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setContent("");
+    setOpen(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const message = content.trim();
+    if (!message || message.length > MAX_BROADCAST_LENGTH) {
+      toast({
+        title: "Error",
+        description: `Enter a message of up to ${MAX_BROADCAST_LENGTH} characters`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await sendBroadcast.mutateAsync(message);
+      toast({ title: "Broadcast sent", description: "Everyone will see it in their inbox." });
+      setOpen(false);
+    } catch (error) {
+      console.error("Error sending broadcast:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send broadcast",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>New broadcast</DialogTitle>
+            <DialogDescription>Shown to every signed-in user as soon as it is sent.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="broadcast-content">Message</Label>
+            <Textarea
+              id="broadcast-content"
+              rows={5}
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+            />
+            <div className="text-xs text-muted-foreground text-right">
+              {content.trim().length}/{MAX_BROADCAST_LENGTH}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={sendBroadcast.isPending}>
+              {sendBroadcast.isPending ? "Sending..." : "Send to everyone"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
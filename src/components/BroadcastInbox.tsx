@@ -0,0 +1,86 @@
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Bell, Megaphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useBroadcastInbox } from "@/hooks/use-broadcasts";
+import { useRole } from "@/hooks/use-role";
+import { cn } from "@/lib/utils";
+import { BroadcastComposeDialog } from "./BroadcastComposeDialog";
+
+export function BroadcastInbox() {
+  const { broadcasts, unread, isRead, markRead } = useBroadcastInbox();
+  const { can } = useRole();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Open announcements">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 rounded-full bg-destructive px-1 text-[10px] leading-4 text-destructive-foreground">
+              {unread.length > 9 ? "9+" : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <div className="text-sm font-medium">Announcements</div>
+          <div className="flex items-center gap-1">
+            {unread.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => markRead(unread.map((broadcast) => broadcast.id))}
+              >
+                Mark all read
+              </Button>
+            )}
+            {can("broadcasts:send") && (
+              <BroadcastComposeDialog
+                trigger={
+                  <Button variant="ghost" size="icon" className="h-7 w-7" title="New broadcast">
+                    <Megaphone className="h-4 w-4" />
+                  </Button>
+                }
+              />
+            )}
+          </div>
+        </div>
+        {broadcasts.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">No announcements yet</div>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y">
+            {broadcasts.map((broadcast) => {
+              const read = isRead(broadcast.id);
+              return (
+                <li key={broadcast.id}>
+                  <button
+                    type="button"
+                    onClick={() => markRead([broadcast.id])}
+                    className={cn("flex w-full gap-2 px-4 py-3 text-left hover:bg-muted", !read && "bg-muted/50")}
+                  >
+                    <span
+                      className={cn("mt-1.5 h-2 w-2 shrink-0 rounded-full", read ? "bg-transparent" : "bg-primary")}
+                    />
+                    <span className="min-w-0 space-y-1">
+                      <span className={cn("block text-sm whitespace-pre-wrap break-words", !read && "font-medium")}>
+                        {broadcast.content}
+                      </span>
+                      {broadcast.created_at && (
+                        <span className="block text-xs text-muted-foreground">
+                          {formatDistanceToNow(parseISO(broadcast.created_at), { addSuffix: true })}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
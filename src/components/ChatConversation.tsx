@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Bot, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useChatMessages, useSendChatMessage } from "@/hooks/use-agent-chat";
+import { cn } from "@/lib/utils";
+import { AgentChat, ChatCitation, ChatMessage, isAwaitingReply, replyCitations } from "@/utils/chatUtils";
+import { ChatMessageContent } from "./ChatMessageContent";
+
+const MessageBubble = ({ message, citations }: { message: ChatMessage; citations: ChatCitation[] }) => {
+  const fromUser = message.role === "user";
+
+  return (
+    <div className={cn("flex", fromUser ? "justify-end" : "justify-start")}>
+      <div
+        className={cn(
+          "max-w-[80%] rounded-lg px-4 py-2 text-sm",
+          fromUser ? "bg-primary text-primary-foreground" : "bg-muted"
+        )}
+      >
+        {fromUser ? (
+          <div className="whitespace-pre-wrap break-words">{message.content}</div>
+        ) : (
+          <ChatMessageContent content={message.content} citations={citations} />
+        )}
+        {message.created_at && (
+          <div
+            className={cn(
+              "mt-1 text-[10px]",
+              fromUser ? "text-primary-foreground/70" : "text-muted-foreground"
+            )}
+          >
+            {format(parseISO(message.created_at), "p")}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ChatConversation = ({ chat }: { chat: AgentChat }) => {
+  const { toast } = useToast();
+  const { data: messages = [], isLoading, error } = useChatMessages(chat.id);
+  const sendMessage = useSendChatMessage(chat);
+  const [draft, setDraft] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const awaitingReply = isAwaitingReply(messages);
+
+  // Follow the conversation as messages arrive and replies stream in
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [messages]);
+
+  const handleSend = async () => {
+    const content = draft.trim();
+    if (!content || sendMessage.isPending) return;
+
+    setDraft("");
+    try {
+      await sendMessage.mutateAsync(content);
+    } catch (error) {
+      console.error("Error sending chat message:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="flex flex-col h-[70vh]">
+      <CardHeader className="border-b">
+        <CardTitle className="flex items-center gap-2">
+          <Bot className="h-5 w-5" />
+          {chat.assistant_name || "Agent"}
+        </CardTitle>
+        {chat.assistant_description && (
+          <CardDescription className="line-clamp-2">{chat.assistant_description}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="flex-1 overflow-y-auto py-4 space-y-3" ref={scrollRef}>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="text-destructive">
+            Error loading messages: {error instanceof Error ? error.message : "An error occurred"}
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Send a message to start the conversation</div>
+        ) : (
+          messages.map((message, index) => (
+            <MessageBubble key={message.message_id} message={message} citations={replyCitations(messages, index)} />
+          ))
+        )}
+        {awaitingReply && (
+          <div className="text-xs text-muted-foreground animate-pulse">
+            {chat.assistant_name || "The agent"} is replying...
+          </div>
+        )}
+      </CardContent>
+      <form
+        className="border-t p-4 flex items-end gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSend();
+        }}
+      >
+        <Textarea
+          rows={2}
+          placeholder="Type a message..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter sends, Shift+Enter starts a new line
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          className="resize-none"
+        />
+        <Button type="submit" size="icon" disabled={!draft.trim() || sendMessage.isPending}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </Card>
+  );
+};
@@ -0,0 +1,53 @@
+import { Link } from "react-router-dom";
+import { usePermission } from "@/hooks/use-role";
+import { ChatCitation, splitCitations } from "@/utils/chatUtils";
+import { documentPath } from "@/utils/documentLinks";
+
+interface ChatMessageContentProps {
+  content: string;
+  // The incidents the message's [n] markers refer to
+  citations?: ChatCitation[];
+}
+
+const CitationLink = ({ number, citation, linked }: { number: number; citation: ChatCitation; linked: boolean }) =>
+  linked ? (
+    <Link to={documentPath(citation.documentId)} title={citation.label} className="text-primary hover:underline">
+      [{number}]
+    </Link>
+  ) : (
+    <span title={citation.label}>[{number}]</span>
+  );
+
+/** Message text with citation markers linked to the incidents they cite, and a list of sources. */
+export const ChatMessageContent = ({ content, citations = [] }: ChatMessageContentProps) => {
+  // Only people who can open documents get links to them
+  const { allowed: linked } = usePermission("documents:view");
+  const segments = splitCitations(content, citations);
+  const cited = citations.filter((_, index) => content.includes(`[${index + 1}]`));
+
+  return (
+    <>
+      <div className="whitespace-pre-wrap break-words">
+        {segments.map((segment, index) =>
+          "citation" in segment ? (
+            <CitationLink key={index} number={segment.number} citation={segment.citation} linked={linked} />
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </div>
+      {cited.length > 0 && (
+        <ol className="mt-2 space-y-0.5 border-t border-border/60 pt-2 text-xs">
+          {citations.map((citation, index) =>
+            cited.includes(citation) ? (
+              <li key={citation.documentId} className="flex gap-1">
+                <CitationLink number={index + 1} citation={citation} linked={linked} />
+                <span className="text-muted-foreground">{citation.label}</span>
+              </li>
+            ) : null
+          )}
+        </ol>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,96 @@
+import { format, isSameDay, parseISO } from "date-fns";
+import { FileDown, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useChatTranscript } from "@/hooks/use-chat-history";
+import { cn } from "@/lib/utils";
+import { AgentChat, chatTitle, replyCitations, speakerLabel } from "@/utils/chatUtils";
+import { downloadTranscriptMarkdown, downloadTranscriptPdf } from "@/utils/transcriptExport";
+import { ChatMessageContent } from "./ChatMessageContent";
+
+export const ChatTranscript = ({ chat }: { chat: AgentChat }) => {
+  const { data: messages = [], isLoading, error } = useChatTranscript(chat.id);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5 min-w-0">
+          <CardTitle className="line-clamp-2">{chatTitle(chat)}</CardTitle>
+          <CardDescription>
+            {chat.assistant_name || chat.assistant_id} · started {format(parseISO(chat.created_at), "PPp")}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            disabled={messages.length === 0}
+            onClick={() => downloadTranscriptMarkdown(chat, messages)}
+          >
+            <FileText className="h-4 w-4" />
+            Markdown
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            disabled={messages.length === 0}
+            onClick={() => downloadTranscriptPdf(chat, messages)}
+          >
+            <FileDown className="h-4 w-4" />
+            PDF
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="text-destructive">
+            Error loading transcript: {error instanceof Error ? error.message : "An error occurred"}
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No messages in this conversation</div>
+        ) : (
+          <ol className="space-y-4">
+            {messages.map((message, index) => {
+              const sent = message.created_at ? parseISO(message.created_at) : null;
+              const previous = messages[index - 1]?.created_at;
+              // Mark where each day's messages start
+              const newDay = sent && (!previous || !isSameDay(parseISO(previous), sent));
+
+              return (
+                <li key={message.message_id} className="space-y-2">
+                  {newDay && (
+                    <div className="text-center text-xs text-muted-foreground py-1">{format(sent, "PPPP")}</div>
+                  )}
+                  <div
+                    className={cn(
+                      "border-l-2 pl-4",
+                      message.role === "user" ? "border-primary" : "border-muted-foreground/40"
+                    )}
+                  >
+                    <div className="flex items-baseline gap-2 text-xs">
+                      <span className="font-medium">{speakerLabel(chat, message)}</span>
+                      {sent && <span className="text-muted-foreground">{format(sent, "p")}</span>}
+                    </div>
+                    <div className="text-sm mt-1">
+                      {message.role === "user" ? (
+                        <div className="whitespace-pre-wrap break-words">{message.content}</div>
+                      ) : (
+                        <ChatMessageContent content={message.content} citations={replyCitations(messages, index)} />
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
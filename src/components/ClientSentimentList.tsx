@@ -0,0 +1,167 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Minus, Plus, Search, TrendingDown, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useClientSentiment } from "@/hooks/use-client-sentiment";
+import { useRole } from "@/hooks/use-role";
+import { clientPath, ClientSummary, entryDate, summarizeClients } from "@/utils/sentimentUtils";
+import { SentimentEntryDialog } from "./SentimentEntryDialog";
+import { SentimentScoreBadge } from "./SentimentScoreBadge";
+
+const ScoreChange = ({ summary }: { summary: ClientSummary }) => {
+  const latest = summary.latest.sentimentScore;
+  const previous = summary.previous?.sentimentScore ?? null;
+  if (latest === null || previous === null) {
+    return <span className="text-xs text-muted-foreground">-</span>;
+  }
+
+  const change = latest - previous;
+  if (change === 0) {
+    return (
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Minus className="h-3 w-3" />
+        0
+      </span>
+    );
+  }
+
+  return change > 0 ? (
+    <span className="flex items-center gap-1 text-xs text-green-500">
+      <TrendingUp className="h-3 w-3" />+{change}
+    </span>
+  ) : (
+    <span className="flex items-center gap-1 text-xs text-destructive">
+      <TrendingDown className="h-3 w-3" />
+      {change}
+    </span>
+  );
+};
+
+export const ClientSentimentList = () => {
+  const navigate = useNavigate();
+  const [search, setSearch] = useState("");
+  const { data: entries = [], isLoading, error } = useClientSentiment();
+  const { can } = useRole();
+
+  const clients = useMemo(() => summarizeClients(entries), [entries]);
+  const filtered = clients.filter((client) =>
+    client.companyName.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Client Sentiment</CardTitle>
+          <CardDescription>Loading clients...</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Client Sentiment</CardTitle>
+          <CardDescription>Error loading client sentiment</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="text-destructive">{error instanceof Error ? error.message : "An error occurred"}</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Client Sentiment</CardTitle>
+          <CardDescription>
+            {clients.length} clients, {entries.length} sentiment reviews
+          </CardDescription>
+        </div>
+        {can("sentiment:edit") && (
+          <SentimentEntryDialog
+            onSaved={(saved) => saved.companyName && navigate(clientPath(saved.companyName))}
+            trigger={
+              <Button size="sm" className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                New review
+              </Button>
+            }
+          />
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative w-full max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search clients..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {filtered.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            {clients.length === 0 ? "No sentiment reviews yet" : "No clients match your search"}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead className="w-28">Latest score</TableHead>
+                  <TableHead className="w-24">Change</TableHead>
+                  <TableHead className="w-36">Last review</TableHead>
+                  <TableHead className="w-20 text-right">Reviews</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((client) => (
+                  <TableRow
+                    key={client.companyName}
+                    className="cursor-pointer"
+                    onClick={() => navigate(clientPath(client.companyName))}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{client.companyName}</div>
+                      {client.latest.oneSentenceExplanation && (
+                        <div className="text-xs text-muted-foreground line-clamp-1">
+                          {client.latest.oneSentenceExplanation}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <SentimentScoreBadge score={client.latest.sentimentScore} />
+                    </TableCell>
+                    <TableCell>
+                      <ScoreChange summary={client} />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {format(entryDate(client.latest), "PP")}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{client.entries.length}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
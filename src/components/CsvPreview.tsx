@@ -0,0 +1,133 @@
+import { AlertCircle, CheckCircle2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { ColumnMapping, SITE_FIELDS, SiteField, SiteRow } from "@/utils/csvUtils";
+
+// Radix Select does not allow an empty string as an item value
+const UNMAPPED = "__unmapped__";
+
+interface CsvPreviewProps {
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: SiteRow[];
+  excludedCount: number;
+  onMappingChange: (field: SiteField, column: number | null) => void;
+  onRemoveRow: (index: number) => void;
+  onRestoreRows: () => void;
+}
+
+export function CsvPreview({
+  headers,
+  mapping,
+  rows,
+  excludedCount,
+  onMappingChange,
+  onRemoveRow,
+  onRestoreRows,
+}: CsvPreviewProps) {
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+
+  return (
+    <div className="space-y-3 rounded-md border border-border/40 p-3">
+      <div className="grid grid-cols-2 gap-2">
+        {SITE_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label className="text-xs">
+              {field.label}
+              {field.required && <span className="text-destructive"> *</span>}
+            </Label>
+            <Select
+              value={mapping[field.key] === null ? UNMAPPED : String(mapping[field.key])}
+              onValueChange={(value) => onMappingChange(field.key, value === UNMAPPED ? null : Number(value))}
+            >
+              <SelectTrigger className="h-8 text-xs bg-secondary/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                {headers.map((header, column) => (
+                  <SelectItem key={column} value={String(column)}>
+                    {header || `Column ${column + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">{rows.length} sites</span>
+          {invalidCount > 0 ? (
+            <Badge variant="destructive" className="text-xs">{invalidCount} with errors</Badge>
+          ) : (
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <CheckCircle2 className="h-3 w-3" />
+              All rows valid
+            </span>
+          )}
+        </div>
+        {excludedCount > 0 && (
+          <Button type="button" variant="ghost" size="sm" className="h-auto p-1 text-xs" onClick={onRestoreRows}>
+            Restore {excludedCount} removed
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-64 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8 text-xs">#</TableHead>
+              <TableHead className="text-xs">Site</TableHead>
+              <TableHead className="text-xs">Postcode</TableHead>
+              <TableHead className="w-8" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.index} className={cn(row.errors.length > 0 && "bg-destructive/5")}>
+                <TableCell className="py-1 text-xs text-muted-foreground">{row.index + 1}</TableCell>
+                <TableCell className="py-1 text-xs">
+                  <div>{row.site || "-"}</div>
+                  {row.address && <div className="text-muted-foreground">{row.address}</div>}
+                  {row.errors.map((rowError) => (
+                    <div key={rowError} className="flex items-center gap-1 text-destructive">
+                      <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                      {rowError}
+                    </div>
+                  ))}
+                </TableCell>
+                <TableCell className="py-1 text-xs">{row.postcode || "-"}</TableCell>
+                <TableCell className="py-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => onRemoveRow(row.index)}
+                    aria-label={`Remove row ${row.index + 1}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
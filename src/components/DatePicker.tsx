@@ -8,9 +8,16 @@ import { Label } from "@/components/ui/label";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import type { SelectRangeEventHandler, DateRange } from "react-day-picker";
-import { isDateRange } from "@/utils/dateUtils";
+import {
+  DATE_PRESETS,
+  DateSelection,
+  getPresetRange,
+  isDateRange,
+  matchDatePreset,
+  toDateRange,
+} from "@/utils/dateUtils";
 
-export type DateSelection = Date | { from: Date; to: Date } | undefined;
+export type { DateSelection };
 
 interface DatePickerProps {
   date: DateSelection;
@@ -63,13 +70,31 @@ export function DatePicker({ date, setDate }: DatePickerProps) {
     setDate(undefined);
   };
 
+  const selectedRange = toDateRange(date);
+  const activePreset = selectedRange ? matchDatePreset(selectedRange) : null;
+
   return (
     <div className="space-y-2">
       <Label htmlFor="date">Date Requested</Label>
+      <div className="flex flex-wrap gap-1">
+        {DATE_PRESETS.map((preset) => (
+          <Button
+            key={preset}
+            type="button"
+            variant={activePreset === preset ? "default" : "outline"}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => setDate(getPresetRange(preset))}
+          >
+            {preset}
+          </Button>
+        ))}
+      </div>
       <Popover open={open} onOpenChange={setOpen} modal={false}>
         <PopoverTrigger asChild>
           <Button
             id="date"
+            type="button"
             variant="outline"
             className={cn(
               "w-full justify-start text-left font-normal bg-secondary/50",
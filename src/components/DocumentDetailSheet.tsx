@@ -0,0 +1,197 @@
+import { Copy, Link2, Share2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useToast } from "@/components/ui/use-toast";
+import { useDocument, useSimilarDocuments } from "@/hooks/use-documents";
+import { documentUrl } from "@/utils/documentLinks";
+import { getDocumentIncident, Incident } from "@/utils/incidentUtils";
+
+interface DocumentDetailSheetProps {
+  documentId: number | null;
+  onClose: () => void;
+  // Opens another document, e.g. one of the similar incidents
+  onSelectDocument: (id: number) => void;
+}
+
+const INCIDENT_FIELDS: { key: keyof Incident; label: string }[] = [
+  { key: "incidentType", label: "Type" },
+  { key: "location", label: "Location" },
+  { key: "date", label: "Date" },
+  { key: "time", label: "Time" },
+  { key: "source", label: "Source" },
+  { key: "severity", label: "Severity" },
+];
+
+export const DocumentDetailSheet = ({ documentId, onClose, onSelectDocument }: DocumentDetailSheetProps) => {
+  const { toast } = useToast();
+  const { data: document, isLoading, error } = useDocument(documentId);
+  const { data: similar = [], isLoading: similarLoading, error: similarError } = useSimilarDocuments(documentId);
+
+  const incident = document ? getDocumentIncident(document) : null;
+  const metadataJson = document?.metadata ? JSON.stringify(document.metadata, null, 2) : null;
+
+  const copyToClipboard = async (text: string, description: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied", description });
+    } catch (error) {
+      console.error("Error copying to clipboard:", error);
+      toast({
+        title: "Error",
+        description: "Could not copy to the clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleShare = async () => {
+    const url = documentUrl(documentId);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `Document ${documentId}`, url });
+        return;
+      } catch (error) {
+        // Dismissing the share dialog is not an error
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        console.error("Error sharing document:", error);
+      }
+    }
+    await copyToClipboard(url, "Link to this document copied");
+  };
+
+  return (
+    <Sheet open={documentId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Document {documentId}</SheetTitle>
+          <SheetDescription>
+            {incident?.incidentType || "Incident"}
+            {incident?.location && ` at ${incident.location}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="text-sm text-destructive">
+            Could not load document: {error instanceof Error ? error.message : "Unknown error"}
+          </div>
+        ) : !document ? (
+          <div className="text-sm text-muted-foreground">This document does not exist or you cannot view it.</div>
+        ) : (
+          <ScrollArea className="flex-1 -mx-6 px-6">
+            <div className="space-y-6 pb-6">
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-2"
+                  onClick={() => copyToClipboard(document.content || "", "Document content copied")}
+                >
+                  <Copy className="h-4 w-4" />
+                  Copy content
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-2"
+                  onClick={() => copyToClipboard(documentUrl(document.id), "Link to this document copied")}
+                >
+                  <Link2 className="h-4 w-4" />
+                  Copy link
+                </Button>
+                <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={handleShare}>
+                  <Share2 className="h-4 w-4" />
+                  Share
+                </Button>
+              </div>
+
+              <dl className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {INCIDENT_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <dt className="text-xs text-muted-foreground">{label}</dt>
+                    <dd className="text-sm font-medium">{incident?.[key] || "-"}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              <Separator />
+
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Content</h3>
+                <p className="text-sm whitespace-pre-wrap break-words">{document.content || "No content"}</p>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Metadata</h3>
+                {metadataJson ? (
+                  <pre className="text-xs font-mono bg-muted/50 rounded-md p-3 overflow-x-auto">{metadataJson}</pre>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No metadata</p>
+                )}
+              </section>
+
+              <Separator />
+
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Similar incidents</h3>
+                {similarLoading ? (
+                  <div className="flex items-center justify-center py-4">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                  </div>
+                ) : similarError ? (
+                  <p className="text-sm text-destructive">
+                    Could not load similar incidents:{" "}
+                    {similarError instanceof Error ? similarError.message : "Unknown error"}
+                  </p>
+                ) : similar.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No similar incidents found</p>
+                ) : (
+                  <ol className="space-y-2">
+                    {similar.map((match) => {
+                      const matchIncident = getDocumentIncident(match);
+                      return (
+                        <li key={match.id}>
+                          <button
+                            type="button"
+                            onClick={() => onSelectDocument(match.id)}
+                            className="w-full text-left rounded-md border p-3 space-y-1 hover:bg-muted/50 transition-colors"
+                          >
+                            <div className="flex items-center justify-between gap-4">
+                              <div className="flex flex-wrap items-center gap-1">
+                                <span className="text-xs text-muted-foreground">Document {match.id}</span>
+                                {matchIncident.incidentType && (
+                                  <Badge variant="secondary" className="text-xs">{matchIncident.incidentType}</Badge>
+                                )}
+                                {matchIncident.date && (
+                                  <span className="text-xs text-muted-foreground">{matchIncident.date}</span>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-2 w-32 shrink-0">
+                                <Progress value={Math.max(0, match.similarity) * 100} className="h-2" />
+                                <span className="text-xs font-mono w-12 text-right">
+                                  {(match.similarity * 100).toFixed(1)}%
+                                </span>
+                              </div>
+                            </div>
+                            <p className="text-sm line-clamp-2">{match.content}</p>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </section>
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
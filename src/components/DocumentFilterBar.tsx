@@ -0,0 +1,64 @@
+import { Filter } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DocumentFilters, EMPTY_DOCUMENT_FILTERS } from "@/hooks/use-documents";
+
+type TextFilter = "content" | "location" | "type";
+
+interface DocumentFilterBarProps {
+  filters: DocumentFilters;
+  onChange: (filters: DocumentFilters) => void;
+  // Text filters to offer; the date range is always shown
+  fields?: TextFilter[];
+}
+
+const TEXT_FILTER_PLACEHOLDERS: Record<TextFilter, string> = {
+  content: "Filter by content...",
+  location: "Filter by location...",
+  type: "Filter by type...",
+};
+
+export const DocumentFilterBar = ({
+  filters,
+  onChange,
+  fields = ["content", "location", "type"],
+}: DocumentFilterBarProps) => {
+  const update = (changes: Partial<DocumentFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="flex flex-wrap gap-2 p-4 bg-muted/50 rounded-lg">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Filter className="h-4 w-4" />
+        Filters:
+      </div>
+      {fields.map((field) => (
+        <Input
+          key={field}
+          placeholder={TEXT_FILTER_PLACEHOLDERS[field]}
+          value={filters[field]}
+          onChange={(e) => update({ [field]: e.target.value })}
+          className="w-48"
+        />
+      ))}
+      <div className="flex items-center gap-2">
+        <span className="text-sm">Date range:</span>
+        <Input
+          type="date"
+          value={filters.dateFrom}
+          onChange={(e) => update({ dateFrom: e.target.value })}
+          className="w-40"
+        />
+        <span className="text-sm">to</span>
+        <Input
+          type="date"
+          value={filters.dateTo}
+          onChange={(e) => update({ dateTo: e.target.value })}
+          className="w-40"
+        />
+      </div>
+      <Button variant="outline" size="sm" onClick={() => onChange(EMPTY_DOCUMENT_FILTERS)}>
+        Clear All
+      </Button>
+    </div>
+  );
+};
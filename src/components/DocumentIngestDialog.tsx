@@ -0,0 +1,311 @@
+import { useRef, useState } from "react";
+import { FileUp, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useIngestDocuments } from "@/hooks/use-document-ingest";
+import { IngestProgress, prepareIngest, readIngestFile } from "@/lib/documentIngest";
+import { INCIDENT_METADATA_KEYS } from "@/utils/incidentUtils";
+import {
+  countDuplicates,
+  EMPTY_INGEST_DEFAULTS,
+  IngestDefaults,
+  IngestDocument,
+  PreparedChunk,
+} from "@/utils/ingestUtils";
+
+type IngestInput = "file" | "text";
+
+// Chunks listed in the review step; the counts cover the rest
+const PREVIEW_LIMIT = 50;
+
+const ChunkPreview = ({ chunk }: { chunk: PreparedChunk }) => {
+  const details = [
+    INCIDENT_METADATA_KEYS.location,
+    INCIDENT_METADATA_KEYS.incidentType,
+    INCIDENT_METADATA_KEYS.date,
+    INCIDENT_METADATA_KEYS.source,
+  ]
+    .map((key) => chunk.metadata[key])
+    .filter(Boolean);
+
+  return (
+    <li className={`rounded-md border p-3 space-y-1 ${chunk.duplicate ? "opacity-60" : ""}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="text-xs font-medium line-clamp-1">{chunk.label}</div>
+        {chunk.duplicate && (
+          <Badge variant="outline" className="shrink-0">
+            {chunk.duplicate === "existing" ? "Already stored" : "Repeated"}
+          </Badge>
+        )}
+      </div>
+      {details.length > 0 && <div className="text-xs text-muted-foreground">{details.join(" · ")}</div>}
+      <p className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-wrap">{chunk.content}</p>
+    </li>
+  );
+};
+
+export const DocumentIngestDialog = () => {
+  const { toast } = useToast();
+  const ingest = useIngestDocuments();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState<IngestInput>("file");
+  const [file, setFile] = useState<File | null>(null);
+  const [text, setText] = useState("");
+  const [defaults, setDefaults] = useState<IngestDefaults>(EMPTY_INGEST_DEFAULTS);
+  const [preparing, setPreparing] = useState(false);
+  const [chunks, setChunks] = useState<PreparedChunk[] | null>(null);
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const duplicates = chunks ? countDuplicates(chunks) : null;
+  const newChunks = chunks && duplicates ? chunks.length - duplicates.existing - duplicates.upload : 0;
+
+  const handleOpenChange = (next: boolean) => {
+    // Closing mid-import would hide the progress; use Cancel instead
+    if (!next && ingest.isPending) return;
+    if (next) {
+      setInput("file");
+      setFile(null);
+      setText("");
+      setDefaults(EMPTY_INGEST_DEFAULTS);
+      setChunks(null);
+      setProgress(null);
+    }
+    setOpen(next);
+  };
+
+  const updateDefaults = (changes: Partial<IngestDefaults>) => {
+    setDefaults({ ...defaults, ...changes });
+    // Metadata is baked into the prepared chunks
+    setChunks(null);
+  };
+
+  const handlePrepare = async () => {
+    setPreparing(true);
+    try {
+      const documents: IngestDocument[] =
+        input === "file"
+          ? file
+            ? await readIngestFile(file)
+            : []
+          : text.trim()
+            ? [{ content: text, label: "Pasted text", incident: {} }]
+            : [];
+
+      if (documents.length === 0) {
+        toast({
+          title: "Error",
+          description: input === "file" ? "The file does not contain any text to import." : "Paste some text to import.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setChunks(await prepareIngest(documents, defaults, input === "file" ? file?.name ?? null : null));
+    } catch (error) {
+      console.error("Error preparing documents:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not read the upload",
+        variant: "destructive",
+      });
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!chunks) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const result = await ingest.mutateAsync({ chunks, onProgress: setProgress, signal: controller.signal });
+      toast({
+        title: "Documents imported",
+        description: `${result.inserted} added${result.skipped ? `, ${result.skipped} duplicates skipped` : ""}.`,
+      });
+      setOpen(false);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast({ title: "Import cancelled", description: "Chunks imported before cancelling were kept." });
+        setOpen(false);
+        return;
+      }
+      console.error("Error importing documents:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import documents",
+        variant: "destructive",
+      });
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <FileUp className="h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import documents</DialogTitle>
+          <DialogDescription>
+            Text is split into chunks, embedded for semantic search and stored with the incident details below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Tabs
+            value={input}
+            onValueChange={(value) => {
+              setInput(value as IngestInput);
+              setChunks(null);
+            }}
+          >
+            <TabsList>
+              <TabsTrigger value="file" disabled={ingest.isPending}>
+                File
+              </TabsTrigger>
+              <TabsTrigger value="text" disabled={ingest.isPending}>
+                Paste text
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="file" className="space-y-2">
+              <Label htmlFor="ingest-file">Text, PDF or CSV incident log</Label>
+              <Input
+                id="ingest-file"
+                type="file"
+                accept=".txt,.md,.pdf,.csv"
+                disabled={ingest.isPending}
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setChunks(null);
+                }}
+              />
+              <p className="text-xs text-muted-foreground">
+                Each CSV row becomes its own document. Columns such as location, date and type fill in its details.
+              </p>
+            </TabsContent>
+            <TabsContent value="text" className="space-y-2">
+              <Label htmlFor="ingest-text">Text</Label>
+              <Textarea
+                id="ingest-text"
+                rows={6}
+                value={text}
+                disabled={ingest.isPending}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  setChunks(null);
+                }}
+              />
+            </TabsContent>
+          </Tabs>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="ingest-source">Source</Label>
+              <Input
+                id="ingest-source"
+                placeholder="e.g. ProtectUK"
+                value={defaults.source}
+                disabled={ingest.isPending}
+                onChange={(e) => updateDefaults({ source: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ingest-location">Location</Label>
+              <Input
+                id="ingest-location"
+                value={defaults.location}
+                disabled={ingest.isPending}
+                onChange={(e) => updateDefaults({ location: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ingest-date">Date</Label>
+              <Input
+                id="ingest-date"
+                type="date"
+                value={defaults.date}
+                disabled={ingest.isPending}
+                onChange={(e) => updateDefaults({ date: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Used wherever a document does not give its own. Leave blank to take them from the text.
+          </p>
+
+          {chunks && duplicates && (
+            <div className="space-y-3">
+              <div className="text-sm">
+                {chunks.length} chunks, {newChunks} new
+                {duplicates.existing > 0 && ` · ${duplicates.existing} already stored`}
+                {duplicates.upload > 0 && ` · ${duplicates.upload} repeated in this upload`}
+              </div>
+              {progress ? (
+                <div className="space-y-1">
+                  <Progress value={progress.total ? (progress.processed / progress.total) * 100 : 0} />
+                  <div className="text-xs text-muted-foreground">
+                    {progress.inserted} of {newChunks} imported
+                  </div>
+                </div>
+              ) : (
+                <ul className="space-y-2 max-h-64 overflow-y-auto">
+                  {chunks.slice(0, PREVIEW_LIMIT).map((chunk, index) => (
+                    <ChunkPreview key={index} chunk={chunk} />
+                  ))}
+                  {chunks.length > PREVIEW_LIMIT && (
+                    <li className="text-xs text-muted-foreground text-center">
+                      and {chunks.length - PREVIEW_LIMIT} more
+                    </li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {ingest.isPending ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : chunks ? (
+            <Button onClick={handleImport} disabled={newChunks === 0} className="flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              Import {newChunks} chunks
+            </Button>
+          ) : (
+            <Button
+              onClick={handlePrepare}
+              disabled={preparing || (input === "file" ? !file : !text.trim())}
+            >
+              {preparing ? "Preparing..." : "Prepare"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
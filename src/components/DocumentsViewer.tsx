@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import {
   Table,
   TableBody,
@@ -11,165 +11,119 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Download, Filter } from "lucide-react";
+import { Download } from "lucide-react";
 import { format, isValid, parseISO } from "date-fns";
+import {
+  DOCUMENT_PAGE_SIZES,
+  DocumentFilters,
+  EMPTY_DOCUMENT_FILTERS,
+  useDocumentsPage,
+} from "@/hooks/use-documents";
+import { useDebouncedValue } from "@/hooks/use-debounce";
+import { useRole } from "@/hooks/use-role";
+import { getDocumentIncident, IncidentSeverity } from "@/utils/incidentUtils";
+import { DocumentDetailSheet } from "./DocumentDetailSheet";
+import { DocumentFilterBar } from "./DocumentFilterBar";
+import { DocumentIngestDialog } from "./DocumentIngestDialog";
+import { PaginationControls } from "./PaginationControls";
 
-interface Document {
-  id: number;
-  content: string;
-  metadata?: any;
-}
-
-export const DocumentsViewer = () => {
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState({
-    location: "",
-    type: "",
-    content: "",
-    dateFrom: "",
-    dateTo: ""
-  });
+const severityVariants: Record<IncidentSeverity, "outline" | "secondary" | "default" | "destructive"> = {
+  low: "outline",
+  medium: "secondary",
+  high: "default",
+  critical: "destructive",
+};
 
-  useEffect(() => {
-    fetchDocuments();
-  }, []);
+const FILTER_KEYS = Object.keys(EMPTY_DOCUMENT_FILTERS) as (keyof DocumentFilters)[];
 
-  const fetchDocuments = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('documents')
-        .select('id, content, metadata')
-        .order('id', { ascending: false })
-        .limit(20);
+function sameFilters(a: DocumentFilters, b: DocumentFilters): boolean {
+  return FILTER_KEYS.every((key) => a[key] === b[key]);
+}
 
-      if (error) throw error;
-      const sortedData = (data || []).sort((a, b) => {
-        const dateA = extractDateFromContent(a.content);
-        const dateB = extractDateFromContent(b.content);
-        if (!dateA && !dateB) return b.id - a.id; // fallback to ID desc
-        if (!dateA) return 1;
-        if (!dateB) return -1;
-        return new Date(dateB).getTime() - new Date(dateA).getTime(); // latest first
-      });
-      setDocuments(sortedData);
-      setFilteredDocuments(sortedData);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    } finally {
-      setLoading(false);
-    }
+function readFilters(params: URLSearchParams): DocumentFilters {
+  return {
+    location: params.get("location") ?? "",
+    type: params.get("type") ?? "",
+    content: params.get("content") ?? "",
+    dateFrom: params.get("dateFrom") ?? "",
+    dateTo: params.get("dateTo") ?? "",
   };
+}
 
-  const extractDateFromContent = (content: string): string | null => {
-    if (!content) return null;
-    
-    // Pattern 1: Timestamp at start "Mon Aug 22 16:14:23 +0000 2025"
-    const timestampMatch = content.match(/^(\w{3} \w{3} \d{1,2} \d{2}:\d{2}:\d{2} [+-]\d{4} \d{4})/);
-    if (timestampMatch) {
-      try {
-        const date = new Date(timestampMatch[1]);
-        return format(date, 'yyyy-MM-dd');
-      } catch (e) {
-        console.log('Error parsing timestamp:', timestampMatch[1]);
-      }
-    }
-    
-    // Pattern 2: Publication date "dd/mm/yyyy"
-    const pubDateMatch = content.match(/ProtectUK publication date\s*(\d{1,2}\/\d{1,2}\/\d{4})/);
-    if (pubDateMatch) {
-      try {
-        const [day, month, year] = pubDateMatch[1].split('/');
-        const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-        return format(date, 'yyyy-MM-dd');
-      } catch (e) {
-        console.log('Error parsing publication date:', pubDateMatch[1]);
-      }
-    }
-    
-    // Pattern 3: Any YYYY-MM-DD format
-    const isoDateMatch = content.match(/(\d{4}-\d{2}-\d{2})/);
-    if (isoDateMatch) {
-      return isoDateMatch[1];
-    }
-    
-    return null;
-  };
+export const DocumentsViewer = () => {
+  // Filters, page and page size live in the query string so views can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { can } = useRole();
+  const appliedFilters = useMemo(() => readFilters(searchParams), [searchParams]);
+  const page = Math.max(0, (Number(searchParams.get("page")) || 1) - 1);
+  const pageSizeParam = Number(searchParams.get("pageSize"));
+  const pageSize = DOCUMENT_PAGE_SIZES.includes(pageSizeParam) ? pageSizeParam : DOCUMENT_PAGE_SIZES[0];
 
-  const extractLocationFromContent = (content: string): string | null => {
-    if (!content) return null;
-    const locationMatch = content.match(/"locationOfIncident":\s*"([^"]+)"/);
-    return locationMatch ? locationMatch[1] : null;
-  };
+  const [filters, setFilters] = useState<DocumentFilters>(appliedFilters);
+  const debouncedFilters = useDebouncedValue(filters, 400);
+  // Filters last written to or read from the query string
+  const syncedFilters = useRef(appliedFilters);
 
-  const extractTimeFromContent = (content: string): string | null => {
-    if (!content) return null;
-    const timeMatch = content.match(/"timeOfIncident":\s*"([^"]+)"/);
-    return timeMatch ? timeMatch[1] : null;
-  };
+  const updateParams = useCallback((changes: Record<string, string | number | null>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === null || value === "") {
+          next.delete(key);
+        } else {
+          next.set(key, String(value));
+        }
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
 
-  const extractTypeFromContent = (content: string): string | null => {
-    if (!content) return null;
-    const typeMatch = content.match(/"incidentType":\s*"([^"]+)"/);
-    return typeMatch ? typeMatch[1] : null;
-  };
+  // Back/forward and incoming links change the query string without going
+  // through the inputs, so copy it back into them
+  useEffect(() => {
+    if (sameFilters(appliedFilters, syncedFilters.current)) return;
+    syncedFilters.current = appliedFilters;
+    setFilters(appliedFilters);
+  }, [appliedFilters]);
 
   useEffect(() => {
-    let filtered = documents;
+    if (sameFilters(debouncedFilters, syncedFilters.current)) return;
+    syncedFilters.current = debouncedFilters;
+    updateParams({ ...debouncedFilters, page: null });
+  }, [debouncedFilters, updateParams]);
 
-    if (filters.location) {
-      filtered = filtered.filter(doc => {
-        const location = extractLocationFromContent(doc.content);
-        return location?.toLowerCase().includes(filters.location.toLowerCase());
-      });
-    }
-    if (filters.type) {
-      filtered = filtered.filter(doc => {
-        const type = extractTypeFromContent(doc.content);
-        return type?.toLowerCase().includes(filters.type.toLowerCase());
-      });
-    }
-    if (filters.content) {
-      filtered = filtered.filter(doc => 
-        doc.content?.toLowerCase().includes(filters.content.toLowerCase())
-      );
-    }
-    if (filters.dateFrom) {
-      filtered = filtered.filter(doc => {
-        const docDate = extractDateFromContent(doc.content);
-        return docDate && docDate >= filters.dateFrom;
-      });
-    }
-    if (filters.dateTo) {
-      filtered = filtered.filter(doc => {
-        const docDate = extractDateFromContent(doc.content);
-        return docDate && docDate <= filters.dateTo;
-      });
-    }
+  const setPage = (nextPage: number) => updateParams({ page: nextPage > 0 ? nextPage + 1 : null });
 
-    setFilteredDocuments(filtered);
-  }, [documents, filters]);
+  // The open document is in the URL too, so links from elsewhere can open it
+  const selectedDocumentId = Number(searchParams.get("doc")) || null;
+  const selectDocument = (id: number | null) => updateParams({ doc: id });
+
+  const { data, isLoading: loading, isFetching, error: queryError } = useDocumentsPage(page, pageSize, appliedFilters);
+  const error = queryError ? (queryError instanceof Error ? queryError.message : 'An error occurred') : null;
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const documents = data?.documents || [];
+  const incidents = useMemo(
+    () => new Map((data?.documents || []).map((doc) => [doc.id, getDocumentIncident(doc)])),
+    [data?.documents]
+  );
+  const hasFilters = FILTER_KEYS.some((key) => appliedFilters[key]);
 
   const exportToCSV = () => {
     const csvContent = [
-      ["ID", "Content", "Location", "Date", "Time", "Type"],
-      ...filteredDocuments.map(doc => {
-        const extractedDate = extractDateFromContent(doc.content);
-        const extractedLocation = extractLocationFromContent(doc.content);
-        const extractedTime = extractTimeFromContent(doc.content);
-        const extractedType = extractTypeFromContent(doc.content);
+      ["ID", "Content", "Location", "Date", "Time", "Type", "Source", "Severity"],
+      ...documents.map(doc => {
+        const incident = incidents.get(doc.id);
         return [
           doc.id,
           `"${(doc.content || '').replace(/"/g, '""')}"`,
-          extractedLocation || '',
-          extractedDate || '',
-          extractedTime || '',
-          extractedType || ''
+          incident?.location || '',
+          incident?.date || '',
+          incident?.time || '',
+          incident?.incidentType || '',
+          incident?.source || '',
+          incident?.severity || ''
         ];
       })
     ].map(row => row.join(",")).join("\n");
@@ -215,16 +169,6 @@ export const DocumentsViewer = () => {
     return content.substring(0, maxLength) + '...';
   };
 
-  const clearFilters = () => {
-    setFilters({
-      location: "",
-      type: "",
-      content: "",
-      dateFrom: "",
-      dateTo: ""
-    });
-  };
-
   if (loading) {
     return (
       <Card>
@@ -262,65 +206,28 @@ export const DocumentsViewer = () => {
           <div>
             <CardTitle>Recent Documents</CardTitle>
             <CardDescription>
-              {filteredDocuments.length} of {documents.length} entries shown
+              {total === 0
+                ? "No entries"
+                : `Showing ${page * pageSize + 1}-${page * pageSize + documents.length} of ${total} entries`}
+              {hasFilters && " matching your filters"}
             </CardDescription>
           </div>
-          <Button onClick={exportToCSV} size="sm" className="flex items-center gap-2">
-            <Download className="h-4 w-4" />
-            Export CSV
-          </Button>
+          <div className="flex items-center gap-2">
+            {can("documents:ingest") && <DocumentIngestDialog />}
+            <Button onClick={exportToCSV} size="sm" className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {/* Filters */}
-          <div className="flex flex-wrap gap-2 p-4 bg-muted/50 rounded-lg">
-            <div className="flex items-center gap-2 text-sm font-medium">
-              <Filter className="h-4 w-4" />
-              Filters:
-            </div>
-            <Input
-              placeholder="Filter by content..."
-              value={filters.content}
-              onChange={(e) => setFilters(prev => ({ ...prev, content: e.target.value }))}
-              className="w-48"
-            />
-            <Input
-              placeholder="Filter by location..."
-              value={filters.location}
-              onChange={(e) => setFilters(prev => ({ ...prev, location: e.target.value }))}
-              className="w-48"
-            />
-            <Input
-              placeholder="Filter by type..."
-              value={filters.type}
-              onChange={(e) => setFilters(prev => ({ ...prev, type: e.target.value }))}
-              className="w-48"
-            />
-            <div className="flex items-center gap-2">
-              <span className="text-sm">Date range:</span>
-              <Input
-                type="date"
-                value={filters.dateFrom}
-                onChange={(e) => setFilters(prev => ({ ...prev, dateFrom: e.target.value }))}
-                className="w-40"
-              />
-              <span className="text-sm">to</span>
-              <Input
-                type="date"
-                value={filters.dateTo}
-                onChange={(e) => setFilters(prev => ({ ...prev, dateTo: e.target.value }))}
-                className="w-40"
-              />
-            </div>
-            <Button variant="outline" size="sm" onClick={clearFilters}>
-              Clear All
-            </Button>
-          </div>
+          <DocumentFilterBar filters={filters} onChange={setFilters} />
 
-          {filteredDocuments.length === 0 ? (
+          {documents.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
-              {documents.length === 0 ? "No documents found" : "No documents match your filters"}
+              {hasFilters ? "No documents match your filters" : "No documents found"}
             </div>
           ) : (
             <div className="rounded-md border">
@@ -332,18 +239,20 @@ export const DocumentsViewer = () => {
                     <TableHead className="w-32">Location</TableHead>
                     <TableHead className="w-24">Date</TableHead>
                     <TableHead className="w-24">Time</TableHead>
-                     <TableHead className="w-24">Type</TableHead>
+                    <TableHead className="w-24">Type</TableHead>
+                    <TableHead className="w-20">Severity</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredDocuments.map((doc) => {
-                     const extractedDate = extractDateFromContent(doc.content);
-                     const extractedLocation = extractLocationFromContent(doc.content);
-                     const extractedTime = extractTimeFromContent(doc.content);
-                     const extractedType = extractTypeFromContent(doc.content);
-                     
+                  {documents.map((doc) => {
+                     const incident = incidents.get(doc.id);
+
                      return (
-                       <TableRow key={doc.id}>
+                       <TableRow
+                         key={doc.id}
+                         className="cursor-pointer"
+                         onClick={() => selectDocument(doc.id)}
+                       >
                          <TableCell className="font-mono text-sm">
                            {doc.id}
                          </TableCell>
@@ -354,20 +263,29 @@ export const DocumentsViewer = () => {
                          </TableCell>
                          <TableCell>
                            <Badge variant="outline" className="text-xs">
-                             {extractedLocation || '-'}
+                             {incident?.location || '-'}
                            </Badge>
                          </TableCell>
                          <TableCell className="text-xs text-muted-foreground">
-                           {extractedDate || '-'}
+                           {incident?.date || '-'}
                          </TableCell>
                          <TableCell className="text-xs text-muted-foreground">
-                           {extractedTime || '-'}
+                           {incident?.time || '-'}
                          </TableCell>
                          <TableCell>
                            <Badge variant="secondary" className="text-xs">
-                             {extractedType || '-'}
+                             {incident?.incidentType || '-'}
                            </Badge>
                          </TableCell>
+                         <TableCell>
+                           {incident?.severity ? (
+                             <Badge variant={severityVariants[incident.severity]} className="text-xs capitalize">
+                               {incident.severity}
+                             </Badge>
+                           ) : (
+                             <span className="text-xs text-muted-foreground">-</span>
+                           )}
+                         </TableCell>
                        </TableRow>
                      );
                    })}
@@ -375,8 +293,43 @@ export const DocumentsViewer = () => {
               </Table>
             </div>
           )}
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span>Rows per page</span>
+              <Select
+                value={String(pageSize)}
+                onValueChange={(value) => updateParams({ pageSize: value, page: null })}
+              >
+                <SelectTrigger className="h-8 w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DOCUMENT_PAGE_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)}>
+                      {size}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isFetching && (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+              )}
+            </div>
+            {pageCount > 1 && (
+              <div>
+                <PaginationControls page={page} pageCount={pageCount} onPageChange={setPage} showPageNumbers />
+              </div>
+            )}
+          </div>
         </div>
       </CardContent>
+
+      <DocumentDetailSheet
+        documentId={selectedDocumentId}
+        onClose={() => selectDocument(null)}
+        onSelectDocument={selectDocument}
+      />
     </Card>
   );
 };
\ No newline at end of file
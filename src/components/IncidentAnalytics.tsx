@@ -0,0 +1,305 @@
+import { useMemo, useRef, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { BarChart3, Download, Image } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { DocumentFilters, EMPTY_DOCUMENT_FILTERS } from "@/hooks/use-documents";
+import { useDebouncedValue } from "@/hooks/use-debounce";
+import { ANALYTICS_INCIDENT_LIMIT, useIncidentAnalytics } from "@/hooks/use-incident-analytics";
+import {
+  chooseTimeBucket,
+  countByField,
+  countOverTime,
+  HeatmapCell,
+  TimeBucket,
+  timeOfDayHeatmap,
+  WEEKDAY_LABELS,
+} from "@/utils/analyticsUtils";
+import { downloadCsv, downloadSvgAsPng } from "@/utils/chartExport";
+import { fromIsoDate } from "@/utils/dateUtils";
+import { DocumentFilterBar } from "./DocumentFilterBar";
+
+const countChartConfig = {
+  count: { label: "Incidents", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const BUCKET_LABELS: Record<TimeBucket, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const BUCKET_FORMATS: Record<TimeBucket, string> = {
+  day: "d MMM",
+  week: "d MMM",
+  month: "MMM yyyy",
+};
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  // Used for the exported file names
+  exportName: string;
+  csvRows: () => (string | number)[][];
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const ChartCard = ({ title, description, exportName, csvRows, actions, children }: ChartCardProps) => {
+  const { toast } = useToast();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileName = `${exportName}-${format(new Date(), "yyyy-MM-dd")}`;
+
+  const exportPng = async () => {
+    const svg = containerRef.current?.querySelector("svg");
+    if (!svg) return;
+    try {
+      const background = window.getComputedStyle(containerRef.current).backgroundColor;
+      await downloadSvgAsPng(svg, `${fileName}.png`, background);
+    } catch (error) {
+      console.error("Error exporting chart:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not export the chart",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {actions}
+          <Button variant="outline" size="sm" className="flex items-center gap-1" onClick={exportPng}>
+            <Image className="h-4 w-4" />
+            PNG
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1"
+            onClick={() => downloadCsv(csvRows(), `${fileName}.csv`)}
+          >
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div ref={containerRef} className="bg-card">
+          {children}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const HEATMAP_CELL = 22;
+const HEATMAP_LABEL_WIDTH = 40;
+const HEATMAP_HEADER_HEIGHT = 18;
+
+const TimeOfDayHeatmap = ({ cells }: { cells: HeatmapCell[] }) => {
+  const max = Math.max(1, ...cells.map((cell) => cell.count));
+  const width = HEATMAP_LABEL_WIDTH + 24 * HEATMAP_CELL;
+  const height = HEATMAP_HEADER_HEIGHT + 7 * HEATMAP_CELL;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto text-xs">
+      {Array.from({ length: 24 }, (_, hour) =>
+        hour % 3 === 0 ? (
+          <text
+            key={hour}
+            x={HEATMAP_LABEL_WIDTH + hour * HEATMAP_CELL + HEATMAP_CELL / 2}
+            y={12}
+            textAnchor="middle"
+            className="fill-muted-foreground"
+            fontSize={10}
+          >
+            {String(hour).padStart(2, "0")}
+          </text>
+        ) : null
+      )}
+      {WEEKDAY_LABELS.map((label, weekday) => (
+        <text
+          key={label}
+          x={0}
+          y={HEATMAP_HEADER_HEIGHT + weekday * HEATMAP_CELL + HEATMAP_CELL / 2 + 4}
+          className="fill-muted-foreground"
+          fontSize={10}
+        >
+          {label}
+        </text>
+      ))}
+      {cells.map((cell) => (
+        <rect
+          key={`${cell.weekday}-${cell.hour}`}
+          x={HEATMAP_LABEL_WIDTH + cell.hour * HEATMAP_CELL + 1}
+          y={HEATMAP_HEADER_HEIGHT + cell.weekday * HEATMAP_CELL + 1}
+          width={HEATMAP_CELL - 2}
+          height={HEATMAP_CELL - 2}
+          rx={3}
+          fill={cell.count === 0 ? "hsl(var(--muted))" : "hsl(var(--chart-1))"}
+          fillOpacity={cell.count === 0 ? 0.5 : 0.15 + 0.85 * (cell.count / max)}
+        >
+          <title>
+            {WEEKDAY_LABELS[cell.weekday]} {String(cell.hour).padStart(2, "0")}:00 – {cell.count} incident
+            {cell.count === 1 ? "" : "s"}
+          </title>
+        </rect>
+      ))}
+    </svg>
+  );
+};
+
+export const IncidentAnalytics = () => {
+  const [filters, setFilters] = useState<DocumentFilters>(EMPTY_DOCUMENT_FILTERS);
+  const debouncedFilters = useDebouncedValue(filters, 400);
+  const [bucketChoice, setBucketChoice] = useState<TimeBucket | "auto">("auto");
+
+  const { data, isLoading, isFetching, error } = useIncidentAnalytics(debouncedFilters);
+  const incidents = useMemo(() => data?.incidents ?? [], [data]);
+
+  const bucket = bucketChoice === "auto" ? chooseTimeBucket(incidents) : bucketChoice;
+  const overTime = useMemo(() => countOverTime(incidents, bucket), [incidents, bucket]);
+  const byType = useMemo(() => countByField(incidents, "incidentType"), [incidents]);
+  const byLocation = useMemo(() => countByField(incidents, "location"), [incidents]);
+  const heatmap = useMemo(() => timeOfDayHeatmap(incidents), [incidents]);
+  const heatmapTotal = heatmap.reduce((sum, cell) => sum + cell.count, 0);
+
+  const formatPeriod = (period: string) => format(fromIsoDate(period), BUCKET_FORMATS[bucket]);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-primary" />
+            Incident Analytics
+          </CardTitle>
+          <CardDescription>
+            {isLoading ? "Loading incidents..." : `${incidents.length} incidents`}
+            {data?.truncated && ` (first ${ANALYTICS_INCIDENT_LIMIT} only, narrow the filters to see all)`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <DocumentFilterBar filters={filters} onChange={setFilters} fields={["location", "type"]} />
+          {isFetching && !isLoading && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary"></div>
+              Updating...
+            </div>
+          )}
+          {error && (
+            <div className="text-sm text-destructive">
+              Could not load incidents: {error instanceof Error ? error.message : "Unknown error"}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : incidents.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No incidents match your filters</div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="lg:col-span-2">
+            <ChartCard
+              title="Incidents over time"
+              description={`${BUCKET_LABELS[bucket]} incident counts`}
+              exportName="incidents-over-time"
+              csvRows={() => [["Period start", "Incidents"], ...overTime.map((point) => [point.period, point.count])]}
+              actions={
+                <Select value={bucketChoice} onValueChange={(value) => setBucketChoice(value as TimeBucket | "auto")}>
+                  <SelectTrigger className="h-8 w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto</SelectItem>
+                    {Object.entries(BUCKET_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              }
+            >
+              <ChartContainer config={countChartConfig} className="h-[300px] w-full aspect-auto">
+                <BarChart data={overTime}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} tickFormatter={formatPeriod} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatPeriod} />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+          </div>
+
+          <ChartCard
+            title="By incident type"
+            description="Most common incident types"
+            exportName="incidents-by-type"
+            csvRows={() => [["Incident type", "Incidents"], ...byType.map((entry) => [entry.name, entry.count])]}
+          >
+            <ChartContainer config={countChartConfig} className="h-[340px] w-full aspect-auto">
+              <BarChart data={byType} layout="vertical" margin={{ left: 8 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={120} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <ChartCard
+            title="By location"
+            description="Locations with the most incidents"
+            exportName="incidents-by-location"
+            csvRows={() => [["Location", "Incidents"], ...byLocation.map((entry) => [entry.name, entry.count])]}
+          >
+            <ChartContainer config={countChartConfig} className="h-[340px] w-full aspect-auto">
+              <BarChart data={byLocation} layout="vertical" margin={{ left: 8 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={120} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <div className="lg:col-span-2">
+            <ChartCard
+              title="Time of day"
+              description={`When incidents happen, by weekday and hour (${heatmapTotal} with a recorded time)`}
+              exportName="incidents-time-of-day"
+              csvRows={() => [
+                ["Weekday", ...Array.from({ length: 24 }, (_, hour) => `${String(hour).padStart(2, "0")}:00`)],
+                ...WEEKDAY_LABELS.map((label, weekday) => [
+                  label,
+                  ...heatmap.filter((cell) => cell.weekday === weekday).map((cell) => cell.count),
+                ]),
+              ]}
+            >
+              <TimeOfDayHeatmap cells={heatmap} />
+            </ChartCard>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Circle, CircleMarker, MapContainer, Popup, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { MapPin } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DocumentFilters, EMPTY_DOCUMENT_FILTERS } from "@/hooks/use-documents";
+import { useDebouncedValue } from "@/hooks/use-debounce";
+import { MAP_INCIDENT_LIMIT, MapIncident, useGeocode, useIncidentMap } from "@/hooks/use-incident-map";
+import { config } from "@/lib/config";
+import { documentPath } from "@/utils/documentLinks";
+import { INCIDENT_SEVERITIES, IncidentSeverity } from "@/utils/incidentUtils";
+import { clusterPoints, distanceKm, kmPerPixel, LatLng } from "@/utils/mapUtils";
+import { DocumentFilterBar } from "./DocumentFilterBar";
+
+const UK_CENTRE: LatLng = { lat: 54.5, lng: -3 };
+const DEFAULT_ZOOM = 6;
+// Markers closer than this many pixels on screen are merged into one cluster
+const CLUSTER_RADIUS_PX = 40;
+const RADIUS_OPTIONS_KM = [1, 5, 10, 25, 50];
+
+const SITE_COLOR = "#3b82f6";
+
+const severityColors: Record<IncidentSeverity | "unknown", string> = {
+  low: "#22c55e",
+  medium: "#eab308",
+  high: "#f97316",
+  critical: "#ef4444",
+  unknown: "#64748b",
+};
+
+function highestSeverity(incidents: MapIncident[]): IncidentSeverity | "unknown" {
+  const ranks = incidents.map((incident) => INCIDENT_SEVERITIES.indexOf(incident.severity));
+  const highest = Math.max(...ranks);
+  return highest >= 0 ? INCIDENT_SEVERITIES[highest] : "unknown";
+}
+
+// Keeps the clustering in step with the map's zoom level
+function ZoomTracker({ onZoomChange }: { onZoomChange: (zoom: number) => void }) {
+  useMapEvents({ zoomend: (e) => onZoomChange(e.target.getZoom()) });
+  return null;
+}
+
+function FlyTo({ point, zoom }: { point: LatLng | null; zoom: number }) {
+  const map = useMap();
+  useEffect(() => {
+    if (point) map.flyTo([point.lat, point.lng], zoom);
+  }, [map, point, zoom]);
+  return null;
+}
+
+function zoomForRadius(radiusKm: number): number {
+  return Math.max(8, Math.min(15, Math.round(14 - Math.log2(radiusKm))));
+}
+
+export const IncidentMap = () => {
+  // The site to look around comes from the URL so ReportForm can link here
+  const [searchParams, setSearchParams] = useSearchParams();
+  const near = searchParams.get("near") ?? "";
+  const radiusKm = RADIUS_OPTIONS_KM.includes(Number(searchParams.get("radius")))
+    ? Number(searchParams.get("radius"))
+    : 5;
+
+  const [siteInput, setSiteInput] = useState(near);
+  const [filters, setFilters] = useState<DocumentFilters>(EMPTY_DOCUMENT_FILTERS);
+  const debouncedFilters = useDebouncedValue(filters, 400);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+
+  useEffect(() => setSiteInput(near), [near]);
+
+  const { data, isLoading, isFetching, error } = useIncidentMap(debouncedFilters);
+  const { data: site, isFetching: siteLoading } = useGeocode(near);
+  const incidents = useMemo(() => data?.incidents ?? [], [data]);
+
+  const clusters = useMemo(
+    () => clusterPoints(incidents, CLUSTER_RADIUS_PX * kmPerPixel(zoom, UK_CENTRE.lat)),
+    [incidents, zoom]
+  );
+
+  const nearby = useMemo(() => {
+    if (!site) return [];
+    return incidents
+      .map((incident) => ({ incident, distance: distanceKm(site, incident) }))
+      .filter(({ distance }) => distance <= radiusKm)
+      .sort((a, b) => a.distance - b.distance || (b.incident.date || "").localeCompare(a.incident.date || ""));
+  }, [incidents, site, radiusKm]);
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const handleSiteSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ near: siteInput.trim() || null });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-primary" />
+            Incident Map
+          </CardTitle>
+          <CardDescription>
+            {isLoading
+              ? "Loading incidents..."
+              : `${incidents.length} incidents plotted`}
+            {data?.locating ? `, locating ${data.locating} more places` : ""}
+            {data?.unlocated ? `, ${data.unlocated} with a location we could not place` : ""}
+            {data?.truncated && ` (most recent ${MAP_INCIDENT_LIMIT} only, narrow the dates to see older ones)`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <DocumentFilterBar filters={filters} onChange={setFilters} fields={["type", "location"]} />
+
+          <form onSubmit={handleSiteSearch} className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Guarded site, e.g. a report location or postcode"
+              value={siteInput}
+              onChange={(e) => setSiteInput(e.target.value)}
+              className="flex-1 min-w-[240px]"
+            />
+            <Select value={String(radiusKm)} onValueChange={(value) => updateParams({ radius: value })}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RADIUS_OPTIONS_KM.map((radius) => (
+                  <SelectItem key={radius} value={String(radius)}>
+                    {radius} km
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={siteLoading}>
+              Show nearby
+            </Button>
+            {near && (
+              <Button type="button" variant="ghost" onClick={() => updateParams({ near: null })}>
+                Clear site
+              </Button>
+            )}
+          </form>
+          {near && !siteLoading && !site && (
+            <p className="text-sm text-destructive">Could not find "{near}" on the map</p>
+          )}
+
+          {error && (
+            <div className="text-sm text-destructive">
+              Could not load incidents: {error instanceof Error ? error.message : "Unknown error"}
+            </div>
+          )}
+
+          <div className="relative h-[500px] rounded-md border overflow-hidden">
+            <MapContainer
+              center={[UK_CENTRE.lat, UK_CENTRE.lng]}
+              zoom={DEFAULT_ZOOM}
+              className="h-full w-full z-0"
+            >
+              <TileLayer
+                url={config.maps.tileUrl}
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              />
+              <ZoomTracker onZoomChange={setZoom} />
+              <FlyTo point={site ?? null} zoom={zoomForRadius(radiusKm)} />
+
+              {site && (
+                <>
+                  <Circle
+                    center={[site.lat, site.lng]}
+                    radius={radiusKm * 1000}
+                    pathOptions={{ color: SITE_COLOR, fillOpacity: 0.05 }}
+                  />
+                  <CircleMarker
+                    center={[site.lat, site.lng]}
+                    radius={6}
+                    pathOptions={{ color: SITE_COLOR, fillOpacity: 1 }}
+                  >
+                    <Popup>{near} ({site.label})</Popup>
+                  </CircleMarker>
+                </>
+              )}
+
+              {clusters.map((cluster) => {
+                const color = severityColors[highestSeverity(cluster.items)];
+                return (
+                  <CircleMarker
+                    key={`${cluster.lat},${cluster.lng},${cluster.items[0].id}`}
+                    center={[cluster.lat, cluster.lng]}
+                    radius={Math.min(30, 6 + Math.sqrt(cluster.items.length) * 3)}
+                    pathOptions={{ color, fillColor: color, fillOpacity: 0.6 }}
+                  >
+                    <Popup>
+                      <div className="space-y-1 max-h-48 overflow-y-auto">
+                        <div className="font-semibold">
+                          {cluster.items.length} incident{cluster.items.length === 1 ? "" : "s"}
+                        </div>
+                        {cluster.items.slice(0, 20).map((incident) => (
+                          <div key={incident.id}>
+                            <Link to={documentPath(incident.id)}>
+                              {incident.incidentType || "Incident"}
+                            </Link>{" "}
+                            &middot; {incident.location}
+                            {incident.date && ` · ${incident.date}`}
+                          </div>
+                        ))}
+                        {cluster.items.length > 20 && <div>and {cluster.items.length - 20} more</div>}
+                      </div>
+                    </Popup>
+                  </CircleMarker>
+                );
+              })}
+            </MapContainer>
+            {isFetching && (
+              <div className="absolute top-3 right-3 z-[400] rounded-full bg-background p-1 shadow">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+            {Object.entries(severityColors).map(([severity, color]) => (
+              <span key={severity} className="flex items-center gap-1 capitalize">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+                {severity}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {site && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Near {near}</CardTitle>
+            <CardDescription>
+              {nearby.length} incident{nearby.length === 1 ? "" : "s"} within {radiusKm} km of {site.label}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {nearby.length === 0 ? (
+              <div className="text-center py-4 text-sm text-muted-foreground">No incidents nearby</div>
+            ) : (
+              <ul className="divide-y">
+                {nearby.map(({ incident, distance }) => (
+                  <li key={incident.id} className="flex items-center justify-between gap-4 py-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Link to={documentPath(incident.id)} className="text-sm font-medium hover:underline">
+                        {incident.incidentType || "Incident"}
+                      </Link>
+                      <Badge variant="outline" className="text-xs">{incident.location}</Badge>
+                      {incident.date && <span className="text-xs text-muted-foreground">{incident.date}</span>}
+                    </div>
+                    <span className="text-xs font-mono text-muted-foreground">{distance.toFixed(1)} km</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { cn } from "@/lib/utils";
+
+interface PaginationControlsProps {
+  // Zero-based
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  // Show numbered page links instead of a "Page x of y" label
+  showPageNumbers?: boolean;
+}
+
+// Pages to show around the current one, e.g. 1 … 4 5 [6] 7 8 … 20
+const SIBLINGS = 2;
+
+function getVisiblePages(page: number, pageCount: number): (number | "ellipsis")[] {
+  const start = Math.max(1, page - SIBLINGS);
+  const end = Math.min(pageCount - 2, page + SIBLINGS);
+  const pages: (number | "ellipsis")[] = [0];
+
+  if (start > 1) pages.push("ellipsis");
+  for (let i = start; i <= end; i++) pages.push(i);
+  if (end < pageCount - 2) pages.push("ellipsis");
+  if (pageCount > 1) pages.push(pageCount - 1);
+
+  return pages;
+}
+
+export function PaginationControls({ page, pageCount, onPageChange, showPageNumbers = false }: PaginationControlsProps) {
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    onPageChange(Math.min(pageCount - 1, Math.max(0, target)));
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            className={cn(page === 0 && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+
+        {showPageNumbers ? (
+          getVisiblePages(page, pageCount).map((item, index) =>
+            item === "ellipsis" ? (
+              <PaginationItem key={`ellipsis-${index}`}>
+                <PaginationEllipsis />
+              </PaginationItem>
+            ) : (
+              <PaginationItem key={item}>
+                <PaginationLink href="#" isActive={item === page} onClick={goTo(item)}>
+                  {item + 1}
+                </PaginationLink>
+              </PaginationItem>
+            )
+          )
+        ) : (
+          <PaginationItem className="px-2 text-sm text-muted-foreground">
+            Page {page + 1} of {pageCount}
+          </PaginationItem>
+        )}
+
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            className={cn(page >= pageCount - 1 && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -0,0 +1,50 @@
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import { useRole } from "@/hooks/use-role";
+import { Permission } from "@/lib/permissions";
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  // Signed-in users without this permission see an access message instead
+  permission?: Permission;
+}
+
+const Spinner = () => (
+  <div className="min-h-screen flex items-center justify-center bg-background">
+    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+  </div>
+);
+
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { user, loading } = useAuth();
+  const { can, isLoading: rolesLoading } = useRole();
+  const location = useLocation();
+
+  if (loading) {
+    return <Spinner />;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (permission) {
+    if (rolesLoading) {
+      return <Spinner />;
+    }
+    if (!can(permission)) {
+      return (
+        <div className="min-h-screen flex items-center justify-center bg-background text-foreground">
+          <div className="text-center space-y-2">
+            <p className="text-muted-foreground">You do not have access to this page.</p>
+            <Link to="/" className="text-primary hover:underline">
+              Return to Home
+            </Link>
+          </div>
+        </div>
+      );
+    }
+  }
+
+  return <>{children}</>;
+}
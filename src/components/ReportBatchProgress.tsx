@@ -0,0 +1,63 @@
+import { AlertCircle, CheckCircle2, Circle, Loader2, MinusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { BatchItem, BatchItemStatus } from "@/hooks/use-report-batch";
+
+const statusIcons: Record<BatchItemStatus, React.ReactNode> = {
+  pending: <Circle className="h-3 w-3 text-muted-foreground" />,
+  running: <Loader2 className="h-3 w-3 animate-spin text-primary" />,
+  succeeded: <CheckCircle2 className="h-3 w-3 text-green-600" />,
+  accepted: <CheckCircle2 className="h-3 w-3 text-muted-foreground" />,
+  failed: <AlertCircle className="h-3 w-3 text-destructive" />,
+  cancelled: <MinusCircle className="h-3 w-3 text-muted-foreground" />,
+};
+
+interface ReportBatchProgressProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+export function ReportBatchProgress({ items, isRunning, onCancel, onDismiss }: ReportBatchProgressProps) {
+  const finished = items.filter((item) => item.status !== "pending" && item.status !== "running").length;
+  const succeeded = items.filter((item) => item.status === "succeeded" || item.status === "accepted").length;
+  const failed = items.filter((item) => item.status === "failed").length;
+
+  return (
+    <div className="space-y-3 rounded-md border border-border/40 p-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">
+          {isRunning ? "Generating reports" : "Batch finished"} ({finished}/{items.length})
+        </span>
+        {isRunning ? (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        ) : (
+          <Button type="button" variant="ghost" size="sm" onClick={onDismiss}>
+            Dismiss
+          </Button>
+        )}
+      </div>
+
+      <Progress value={items.length ? (finished / items.length) * 100 : 0} />
+
+      <div className="text-xs text-muted-foreground">
+        {succeeded} succeeded, {failed} failed
+      </div>
+
+      <ul className="max-h-48 space-y-1 overflow-auto text-xs">
+        {items.map((item) => (
+          <li key={item.index} className="flex items-start gap-2">
+            <span className="mt-0.5">{statusIcons[item.status]}</span>
+            <div className="min-w-0">
+              <div className="truncate">{item.location}</div>
+              {item.error && <div className="text-destructive break-all">{item.error}</div>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,43 +1,156 @@
 
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/components/ui/use-toast";
-import { cn } from "@/lib/utils";
-import { Upload } from "lucide-react";
-
-export type DateOption = "Today" | "Next 7 Days" | "Next 14 Days" | "Next 30 Days" | "";
+import { useSubmitReportJob } from "@/hooks/use-security-reports";
+import { useReportBatch } from "@/hooks/use-report-batch";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermission } from "@/hooks/use-role";
+import { reportRequestSchema } from "@/lib/reportWebhook";
+import {
+  ColumnMapping,
+  ParsedCsv,
+  SITE_FIELDS,
+  SiteField,
+  guessColumnMapping,
+  mapSiteRows,
+  parseCsv,
+  siteRowsToCsv,
+} from "@/utils/csvUtils";
+import { DateRange, DatePreset, getPresetRange, toDateRange } from "@/utils/dateUtils";
+import { incidentMapPath } from "@/utils/documentLinks";
+import { CsvPreview } from "./CsvPreview";
+import { DatePicker, DateSelection } from "./DatePicker";
+import { ReportBatchProgress } from "./ReportBatchProgress";
+import { MapPin, Upload } from "lucide-react";
 
 export interface FormData {
   location: string;
-  date: DateOption;
+  dateRange: DateRange;
 }
 
+export type ReportStatus = "queued" | "running" | "succeeded" | "failed";
+
 export interface GeneratedReport extends FormData {
   id: string;
-  reportUrl: string;
+  datePreset: DatePreset | null;
+  reportUrl: string | null;
   generatedAt: Date;
+  completedAt: Date | null;
   email: string;
+  status: ReportStatus;
+  error: string | null;
+  attempts: number;
+  batchId: string | null;
+  // The user who requested it; only they (or an admin) can retry it
+  createdBy: string | null;
 }
 
-interface ReportFormProps {
-  onReportGenerated: (report: GeneratedReport) => void;
-}
+export function ReportForm() {
+  const { user } = useAuth();
+  const { allowed: canViewIncidents } = usePermission("documents:view");
+  const defaultEmail = user?.email ?? "";
 
-export function ReportForm({ onReportGenerated }: ReportFormProps) {
   const [location, setLocation] = useState("");
-  const [date, setDate] = useState<DateOption>("Today");
-  const [email, setEmail] = useState("");
+  const [date, setDate] = useState<DateSelection>(() => getPresetRange("Today"));
+  const [email, setEmail] = useState(defaultEmail);
   const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [parsedCsv, setParsedCsv] = useState<ParsedCsv | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [batchMode, setBatchMode] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
+  const csvInputRef = useRef<HTMLInputElement>(null);
 
   const { toast } = useToast();
+  const submitJob = useSubmitReportJob();
+  const batch = useReportBatch();
+
+  const isBatch = !!parsedCsv && batchMode;
+
+  const siteRows = useMemo(
+    () => (parsedCsv && columnMapping ? mapSiteRows(parsedCsv.records, columnMapping, excludedRows) : []),
+    [parsedCsv, columnMapping, excludedRows]
+  );
+
+  const resetCsvState = () => {
+    setCsvFile(null);
+    setParsedCsv(null);
+    setColumnMapping(null);
+    setExcludedRows(new Set());
+  };
+
+  const clearCsv = () => {
+    resetCsvState();
+    // The file input is uncontrolled; without this, choosing the same file again fires no change
+    if (csvInputRef.current) csvInputRef.current.value = "";
+  };
+
+  const handleCsvChange = async (file: File | null) => {
+    resetCsvState();
+    if (!file) return;
+
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.records.length === 0) {
+        toast({
+          title: "Error",
+          description: "The CSV file does not contain any site rows.",
+          variant: "destructive",
+        });
+        clearCsv();
+        return;
+      }
+
+      setCsvFile(file);
+      setParsedCsv(parsed);
+      setColumnMapping(guessColumnMapping(parsed.headers));
+    } catch (error) {
+      console.error("Error reading CSV:", error);
+      toast({
+        title: "Error",
+        description: "Could not read the CSV file.",
+        variant: "destructive",
+      });
+      clearCsv();
+    }
+  };
+
+  const handleMappingChange = (field: SiteField, column: number | null) => {
+    setColumnMapping((prev) => (prev ? { ...prev, [field]: column } : prev));
+  };
+
+  const handleRemoveRow = (index: number) => {
+    setExcludedRows((prev) => new Set(prev).add(index));
+  };
+
+  const getCsvError = (): string | null => {
+    if (!parsedCsv || !columnMapping) return null;
+
+    const unmapped = SITE_FIELDS.filter((field) => field.required && columnMapping[field.key] === null);
+    if (unmapped.length > 0) {
+      return `Map a CSV column to ${unmapped.map((field) => field.label).join(" and ")}`;
+    }
+    if (siteRows.length === 0) {
+      return "All CSV rows have been removed";
+    }
+    const invalidCount = siteRows.filter((row) => row.errors.length > 0).length;
+    if (invalidCount > 0) {
+      return `Fix or remove the ${invalidCount} CSV row${invalidCount === 1 ? "" : "s"} with errors`;
+    }
+    return null;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!location || !date || !email) {
+    const dateRange = toDateRange(date);
+
+    if ((!location && !isBatch) || !dateRange || !email) {
       toast({
         title: "Error",
         description: "Please fill in all fields",
@@ -46,73 +159,63 @@ export function ReportForm({ onReportGenerated }: ReportFormProps) {
       return;
     }
 
-    console.log("Submitting form with date:", date);
-
-    try {
-      setIsLoading(true);
+    const validation = isBatch
+      ? reportRequestSchema.pick({ email: true }).safeParse({ email })
+      : reportRequestSchema.pick({ location: true, email: true }).safeParse({ location, email });
+    if (!validation.success) {
+      toast({
+        title: "Error",
+        description: validation.error.issues[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
 
-      const webhookUrl = "https://primary-production-b5ec.up.railway.app/webhook/64ae32ba-582c-4921-8452-5e0d81256d00";
+    const csvError = getCsvError();
+    if (csvError) {
+      toast({
+        title: "Error",
+        description: csvError,
+        variant: "destructive",
+      });
+      return;
+    }
 
-      let csvContent = "";
-      if (csvFile) {
-        csvContent = await csvFile.text();
-      }
+    if (isBatch) {
+      void batch.start(siteRows, { dateRange, email });
 
-      const dateQuery = `&dateOption=${encodeURIComponent(date)}`;
-      const csvQuery = csvContent ? `&csvContent=${encodeURIComponent(csvContent)}` : "";
-      
-      const response = await fetch(
-        `${webhookUrl}?location=${encodeURIComponent(
-          location
-        )}${dateQuery}&email=${encodeURIComponent(email)}${csvQuery}`,
-        {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Server responded with status: ${response.status}`);
-      }
+      setLocation("");
+      clearCsv();
 
-      const responseData = await response.json();
+      toast({
+        title: "Batch started",
+        description: `Generating ${siteRows.length} reports, one per site.`,
+      });
+      return;
+    }
 
-      if (
-        !responseData.location ||
-        !responseData.email ||
-        !responseData.urlOfSecurityReport
-      ) {
-        throw new Error("Incomplete data received from webhook");
-      }
+    try {
+      setIsLoading(true);
 
-      const newReport: GeneratedReport = {
-        id: Date.now().toString(),
-        location: responseData.location,
-        date: date,
-        email: responseData.email,
-        reportUrl: responseData.urlOfSecurityReport,
-        generatedAt: new Date(),
-      };
+      const csvContent = parsedCsv ? siteRowsToCsv(siteRows, parsedCsv) : "";
 
-      onReportGenerated(newReport);
+      await submitJob.mutateAsync({ location, dateRange, email, csvContent });
 
       setLocation("");
-      setDate("Today");
-      setEmail("");
-      setCsvFile(null);
+      setDate(getPresetRange("Today"));
+      setEmail(defaultEmail);
+      clearCsv();
 
       toast({
-        title: "Success",
-        description: "Your security report has been generated.",
+        title: "Report queued",
+        description: "Your security report is being generated. Track its progress in the dashboard.",
       });
     } catch (error) {
-      console.error("Error generating report:", error);
+      console.error("Error queueing report:", error);
       toast({
         title: "Error",
         description:
-          "Failed to generate report. Please try again or contact support if the issue persists.",
+          "Failed to queue report. Please try again or contact support if the issue persists.",
         variant: "destructive",
       });
     } finally {
@@ -123,40 +226,34 @@ export function ReportForm({ onReportGenerated }: ReportFormProps) {
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="space-y-2">
-        <Label htmlFor="location">Location</Label>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="location">Location</Label>
+          {canViewIncidents && location.trim() && !isBatch && (
+            <Link
+              to={incidentMapPath(location)}
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <MapPin className="h-3 w-3" />
+              Incidents nearby
+            </Link>
+          )}
+        </div>
         <Input
           id="location"
           placeholder="Enter location"
           value={location}
           onChange={(e) => setLocation(e.target.value)}
           className="bg-secondary/50"
+          disabled={isBatch}
         />
         <p className="text-xs text-muted-foreground">
-          Note: If uploading a CSV file, you can put any desired value here.
+          {isBatch
+            ? "Each site in the CSV file is used as the location of its own report."
+            : "When uploading a CSV file, this labels the batch of sites it contains."}
         </p>
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="date">Date Requested</Label>
-        <select
-          id="date"
-          value={date}
-          onChange={(e) =>
-            setDate(
-              e.target.value as DateOption
-            )
-          }
-          className={cn(
-            "w-full rounded-md border border-input bg-secondary/50 px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-          )}
-          required
-        >
-          <option value="Today">Today</option>
-          <option value="Next 7 Days">Next 7 Days</option>
-          <option value="Next 14 Days">Next 14 Days</option>
-          <option value="Next 30 Days">Next 30 Days</option>
-        </select>
-      </div>
+      <DatePicker date={date} setDate={setDate} />
 
       <div className="space-y-2">
         <Label htmlFor="email">Email</Label>
@@ -175,9 +272,10 @@ export function ReportForm({ onReportGenerated }: ReportFormProps) {
         <div className="relative flex items-center">
           <Input
             id="csv-file"
+            ref={csvInputRef}
             type="file"
             accept=".csv"
-            onChange={(e) => setCsvFile(e.target.files?.[0] || null)}
+            onChange={(e) => handleCsvChange(e.target.files?.[0] || null)}
             className="bg-secondary/50 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary file:text-primary-foreground hover:file:bg-primary/90"
           />
           {csvFile && (
@@ -188,7 +286,7 @@ export function ReportForm({ onReportGenerated }: ReportFormProps) {
                 type="button"
                 variant="ghost"
                 size="sm"
-                onClick={() => setCsvFile(null)}
+                onClick={clearCsv}
                 className="h-auto p-1 text-xs"
               >
                 Remove
@@ -196,10 +294,42 @@ export function ReportForm({ onReportGenerated }: ReportFormProps) {
             </div>
           )}
         </div>
+        {parsedCsv && (
+          <div className="flex items-center gap-2">
+            <Switch id="batch-mode" checked={batchMode} onCheckedChange={setBatchMode} />
+            <Label htmlFor="batch-mode" className="text-sm font-normal">
+              Generate one report per site
+            </Label>
+          </div>
+        )}
+        {parsedCsv && columnMapping && (
+          <CsvPreview
+            headers={parsedCsv.headers}
+            mapping={columnMapping}
+            rows={siteRows}
+            excludedCount={excludedRows.size}
+            onMappingChange={handleMappingChange}
+            onRemoveRow={handleRemoveRow}
+            onRestoreRows={() => setExcludedRows(new Set())}
+          />
+        )}
       </div>
 
-      <Button type="submit" className="w-full font-semibold" disabled={isLoading}>
-        {isLoading ? "Generating Report..." : "Generate Report"}
+      {batch.items.length > 0 && (
+        <ReportBatchProgress
+          items={batch.items}
+          isRunning={batch.isRunning}
+          onCancel={batch.cancel}
+          onDismiss={batch.reset}
+        />
+      )}
+
+      <Button type="submit" className="w-full font-semibold" disabled={isLoading || batch.isRunning}>
+        {isLoading
+          ? "Queueing Report..."
+          : isBatch
+            ? `Generate ${siteRows.length} Reports`
+            : "Generate Report"}
       </Button>
     </form>
   );
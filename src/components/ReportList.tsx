@@ -1,11 +1,25 @@
 
+import { useState } from "react";
 import { format } from "date-fns";
-import { Clock, Link, MapPin, Mail, Calendar, Download } from "lucide-react";
+import { Clock, Link, MapPin, Mail, Calendar, Download, Loader2, RotateCw, AlertCircle } from "lucide-react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { GeneratedReport, DateOption } from "./ReportForm";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRole } from "@/hooks/use-role";
+import { REPORTS_PAGE_SIZE, isJobActive, useRetryReportJob, useSecurityReports } from "@/hooks/use-security-reports";
+import { formatDateRange, toIsoDate } from "@/utils/dateUtils";
+import type { GeneratedReport, ReportStatus } from "./ReportForm";
+import { PaginationControls } from "./PaginationControls";
+
+const statusBadges: Record<ReportStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-muted text-muted-foreground" },
+  running: { label: "Generating", className: "bg-amber-500 text-white" },
+  succeeded: { label: "Report Generated", className: "bg-security-600 text-white" },
+  failed: { label: "Failed", className: "bg-destructive text-destructive-foreground" },
+};
 
 function getGoogleDriveDownloadUrl(url: string): string | null {
   try {
@@ -76,11 +90,50 @@ function parseReportDate(date: Date | string | unknown): Date | null {
   return null;
 }
 
-interface ReportListProps {
-  reports: GeneratedReport[];
-}
+export function ReportList() {
+  const [page, setPage] = useState(0);
+  const { data, isLoading, error } = useSecurityReports(page);
+  const retryJob = useRetryReportJob();
+  const { user } = useAuth();
+  const { hasRole } = useRole();
+  const { toast } = useToast();
+
+  // Mirrors the update policy on security_reports
+  const canRetry = (report: GeneratedReport) => report.createdBy === user?.id || hasRole("admin");
+
+  const handleRetry = (id: string) => {
+    retryJob.mutate(id, {
+      onError: (retryError) => {
+        console.error("Error retrying report:", retryError);
+        toast({
+          title: "Error",
+          description: "Failed to retry report. Please try again.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8 text-destructive">
+        Failed to load reports: {error.message}
+      </div>
+    );
+  }
+
+  const reports = data?.reports ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / REPORTS_PAGE_SIZE));
 
-export function ReportList({ reports }: ReportListProps) {
   if (reports.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -91,24 +144,24 @@ export function ReportList({ reports }: ReportListProps) {
 
   return (
     <div className="space-y-4">
-      <h2 className="text-lg font-semibold">Generated Reports</h2>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Generated Reports</h2>
+        <span className="text-xs text-muted-foreground">{total} total</span>
+      </div>
 
       <div className="grid gap-4">
         {reports.map((report) => {
-          // Since we updated the GeneratedReport interface, date is now always a string
-          // of type DateOption ("Today", "Next 7 Days", etc.)
-          let displayDate: React.ReactNode = report.date || <span className="text-red-500">Date missing</span>;
+          const displayDate = formatDateRange(report.dateRange);
 
-          const directDownloadUrl = getGoogleDriveDownloadUrl(report.reportUrl);
-          const docsPdfUrl = getGoogleDocsPdfExportUrl(report.reportUrl);
+          const statusBadge = statusBadges[report.status] ?? statusBadges.queued;
+          const directDownloadUrl = report.reportUrl && getGoogleDriveDownloadUrl(report.reportUrl);
+          const docsPdfUrl = report.reportUrl && getGoogleDocsPdfExportUrl(report.reportUrl);
 
           const safeLocation = report.location.replace(/[^a-zA-Z0-9-_]/g, "_");
           
-          // For the filename, format the current date since the date in our model is just a string option
-          const currentDate = format(new Date(), "yyyy-MM-dd");
-          const formattedDate = report.date 
-            ? report.date.toLowerCase().replace(/\s+/g, "-")
-            : currentDate;
+          const fromDate = toIsoDate(report.dateRange.from);
+          const toDate = toIsoDate(report.dateRange.to);
+          const formattedDate = fromDate === toDate ? fromDate : `${fromDate}-to-${toDate}`;
 
           const fileName = `security-report-${formattedDate}-${safeLocation}.pdf`;
 
@@ -118,7 +171,12 @@ export function ReportList({ reports }: ReportListProps) {
             <Card key={report.id} className="bg-card shadow-sm border border-border/40 overflow-hidden">
               <CardHeader className="pb-2 pt-4 px-4">
                 <div className="flex items-center justify-between">
-                  <Badge className="bg-security-600 text-white">Report Generated</Badge>
+                  <div className="flex items-center gap-2">
+                    <Badge className={statusBadge.className}>{statusBadge.label}</Badge>
+                    {report.batchId && (
+                      <Badge variant="outline" className="text-xs">Batch</Badge>
+                    )}
+                  </div>
                   <div className="flex items-center text-xs text-muted-foreground">
                     <Clock className="h-3 w-3 mr-1" />
                     {format(report.generatedAt, "h:mm a 'on' MMMM d, yyyy")}
@@ -128,33 +186,69 @@ export function ReportList({ reports }: ReportListProps) {
 
               <CardContent className="pt-2 pb-4 px-4">
                 <div className="space-y-3">
-                  <div className="flex items-center gap-2">
-                    <Link className="h-4 w-4 text-primary flex-shrink-0" />
-                    <div className="flex-1">
-                      <div className="text-sm font-medium">Report Link</div>
-                      <a
-                        href={report.reportUrl}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-sm text-primary hover:underline break-all"
+                  {report.status === "succeeded" && report.reportUrl && (
+                    <div className="flex items-center gap-2">
+                      <Link className="h-4 w-4 text-primary flex-shrink-0" />
+                      <div className="flex-1">
+                        <div className="text-sm font-medium">Report Link</div>
+                        <a
+                          href={report.reportUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-primary hover:underline break-all"
+                        >
+                          {report.reportUrl.split('/').pop()}
+                        </a>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex items-center gap-1"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          downloadFile(downloadUrl, fileName);
+                        }}
+                        aria-label={`Download report for ${safeLocation} on ${formattedDate}`}
                       >
-                        {report.reportUrl.split('/').pop()}
-                      </a>
+                        <Download className="h-4 w-4" />
+                        Download
+                      </Button>
                     </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="flex items-center gap-1"
-                      onClick={(e) => {
-                        e.preventDefault();
-                        downloadFile(downloadUrl, fileName);
-                      }}
-                      aria-label={`Download report for ${safeLocation} on ${formattedDate}`}
-                    >
-                      <Download className="h-4 w-4" />
-                      Download
-                    </Button>
-                  </div>
+                  )}
+
+                  {isJobActive(report) && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+                      {report.status === "queued"
+                        ? "Waiting for the report workflow to start..."
+                        : "Generating report, this can take a few minutes..."}
+                    </div>
+                  )}
+
+                  {report.status === "failed" && (
+                    <div className="flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                      <div className="flex-1">
+                        <div className="text-sm font-medium">Generation failed</div>
+                        <div className="text-xs text-muted-foreground break-all">
+                          {report.error || "Unknown error"}
+                          {report.attempts > 1 && ` (after ${report.attempts} attempts)`}
+                        </div>
+                      </div>
+                      {canRetry(report) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center gap-1"
+                          onClick={() => handleRetry(report.id)}
+                          disabled={retryJob.isPending && retryJob.variables === report.id}
+                        >
+                          <RotateCw className="h-4 w-4" />
+                          Retry
+                        </Button>
+                      )}
+                    </div>
+                  )}
 
                   <Separator className="my-1" />
 
@@ -172,6 +266,9 @@ export function ReportList({ reports }: ReportListProps) {
                       <div>
                         <div className="text-xs text-muted-foreground">Date Requested</div>
                         <div className="text-sm">{displayDate}</div>
+                        {report.datePreset && (
+                          <div className="text-xs text-muted-foreground">{report.datePreset}</div>
+                        )}
                       </div>
                     </div>
 
@@ -189,6 +286,10 @@ export function ReportList({ reports }: ReportListProps) {
           );
         })}
       </div>
+
+      {pageCount > 1 && (
+        <PaginationControls page={page} pageCount={pageCount} onPageChange={setPage} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Plus, Search, Sparkles, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSemanticSearch } from "@/hooks/use-semantic-search";
+
+const MATCH_COUNTS = [5, 10, 20, 50];
+
+interface MetadataFilter {
+  key: string;
+  value: string;
+}
+
+function formatMetadataValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export const SemanticSearch = () => {
+  const [query, setQuery] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [matchCount, setMatchCount] = useState(10);
+  const [filters, setFilters] = useState<MetadataFilter[]>([]);
+  const [submittedFilter, setSubmittedFilter] = useState<Record<string, string>>({});
+
+  const { data: results = [], isFetching, error } = useSemanticSearch({
+    query: submittedQuery,
+    matchCount,
+    filter: submittedFilter,
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmittedQuery(query);
+    setSubmittedFilter(
+      Object.fromEntries(
+        filters
+          .filter((filter) => filter.key.trim() && filter.value.trim())
+          .map((filter) => [filter.key.trim(), filter.value.trim()])
+      )
+    );
+  };
+
+  const updateFilter = (index: number, changes: Partial<MetadataFilter>) => {
+    setFilters((prev) => prev.map((filter, i) => (i === index ? { ...filter, ...changes } : filter)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-primary" />
+          Semantic Search
+        </CardTitle>
+        <CardDescription>
+          Describe what you are looking for in plain language, e.g. "shoplifting near a car park at night"
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSearch} className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Search incidents by meaning..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="flex-1"
+            />
+            <Select value={String(matchCount)} onValueChange={(value) => setMatchCount(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MATCH_COUNTS.map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    Top {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" className="flex items-center gap-2" disabled={!query.trim() || isFetching}>
+              <Search className="h-4 w-4" />
+              Search
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {filters.map((filter, index) => (
+              <div key={index} className="flex items-center gap-1">
+                <Input
+                  placeholder="metadata key"
+                  value={filter.key}
+                  onChange={(e) => updateFilter(index, { key: e.target.value })}
+                  className="h-8 w-36 text-xs"
+                />
+                <span className="text-xs text-muted-foreground">=</span>
+                <Input
+                  placeholder="value"
+                  value={filter.value}
+                  onChange={(e) => updateFilter(index, { value: e.target.value })}
+                  className="h-8 w-36 text-xs"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setFilters((prev) => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove filter"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-1"
+              onClick={() => setFilters((prev) => [...prev, { key: "", value: "" }])}
+            >
+              <Plus className="h-3 w-3" />
+              Metadata filter
+            </Button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="text-sm text-destructive">
+            Search failed: {error instanceof Error ? error.message : "Unknown error"}
+          </div>
+        )}
+
+        {isFetching && (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        )}
+
+        {!isFetching && submittedQuery && !error && results.length === 0 && (
+          <div className="text-center py-4 text-sm text-muted-foreground">No matching documents</div>
+        )}
+
+        {!isFetching && results.length > 0 && (
+          <ol className="space-y-3">
+            {results.map((result, rank) => {
+              const metadata =
+                result.metadata && typeof result.metadata === "object" && !Array.isArray(result.metadata)
+                  ? Object.entries(result.metadata)
+                  : [];
+
+              return (
+                <li key={result.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="text-xs text-muted-foreground">
+                      #{rank + 1} &middot; Document {result.id}
+                    </div>
+                    <div className="flex items-center gap-2 w-48">
+                      <Progress value={Math.max(0, result.similarity) * 100} className="h-2" />
+                      <span className="text-xs font-mono w-12 text-right">
+                        {(result.similarity * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                  </div>
+                  <p className="text-sm line-clamp-3">{result.content}</p>
+                  {metadata.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {metadata.map(([key, value]) => (
+                        <Badge key={key} variant="outline" className="text-xs font-normal">
+                          {key}: {formatMetadataValue(value)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
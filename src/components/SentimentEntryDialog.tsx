@@ -0,0 +1,251 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useClientSentiment, useSaveSentimentEntry } from "@/hooks/use-client-sentiment";
+import {
+  ClientSentiment,
+  describeChanges,
+  entryDate,
+  findPreviousEntry,
+  hasContent,
+  SENTIMENT_SCORE_MAX,
+  SENTIMENT_TEXT_FIELDS,
+  SentimentEntry,
+  sentimentEntrySchema,
+  SentimentEntryValues,
+  summarizeClients,
+  toEntryValues,
+} from "@/utils/sentimentUtils";
+
+interface SentimentEntryDialogProps {
+  trigger: ReactNode;
+  // The review to edit; a new one is recorded when omitted
+  entry?: ClientSentiment;
+  // Pre-fills the company for a new review
+  companyName?: string;
+  onSaved?: (entry: ClientSentiment) => void;
+}
+
+export const SentimentEntryDialog = ({ trigger, entry, companyName = "", onSaved }: SentimentEntryDialogProps) => {
+  const { toast } = useToast();
+  const { data: entries = [] } = useClientSentiment();
+  const saveEntry = useSaveSentimentEntry();
+  const [open, setOpen] = useState(false);
+  // whatChangedFromLast follows the other fields until it is typed into
+  const [autoSummary, setAutoSummary] = useState(true);
+
+  const form = useForm<SentimentEntryValues, unknown, SentimentEntry>({
+    resolver: zodResolver(sentimentEntrySchema),
+    defaultValues: toEntryValues(entry ?? null, companyName),
+  });
+
+  const entryId = entry?.id;
+  const companies = useMemo(() => summarizeClients(entries).map((client) => client.companyName), [entries]);
+  const watchedCompany = form.watch("companyName");
+  const watchedDate = form.watch("date");
+  const previous = findPreviousEntry(entries, watchedCompany ?? "", watchedDate ?? "", entryId);
+
+  const summarize = useCallback(
+    (values: SentimentEntryValues) =>
+      describeChanges(findPreviousEntry(entries, values.companyName ?? "", values.date ?? "", entryId), values),
+    [entries, entryId]
+  );
+
+  useEffect(() => {
+    if (!open || !autoSummary) return;
+    form.setValue("whatChangedFromLast", summarize(form.getValues()));
+    const subscription = form.watch((values, { name }) => {
+      if (name === "whatChangedFromLast") return;
+      form.setValue("whatChangedFromLast", summarize(values as SentimentEntryValues));
+    });
+    return () => subscription.unsubscribe();
+  }, [open, autoSummary, summarize, form]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      form.reset(toEntryValues(entry ?? null, companyName));
+      // Keep the summary already written for an existing review
+      setAutoSummary(!hasContent(entry?.whatChangedFromLast ?? null));
+    }
+    setOpen(next);
+  };
+
+  const regenerateSummary = () => {
+    form.setValue("whatChangedFromLast", summarize(form.getValues()));
+    setAutoSummary(true);
+  };
+
+  const onSubmit = async (values: SentimentEntry) => {
+    try {
+      const saved = await saveEntry.mutateAsync({ id: entry?.id, entry: values });
+      toast({
+        title: entry ? "Review updated" : "Review recorded",
+        description: `Sentiment review for ${values.companyName} saved.`,
+      });
+      setOpen(false);
+      onSaved?.(saved);
+    } catch (error) {
+      console.error("Error saving sentiment review:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save review",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <DialogHeader>
+              <DialogTitle>{entry ? "Edit sentiment review" : "New sentiment review"}</DialogTitle>
+              <DialogDescription>
+                {previous
+                  ? `Compared with the review from ${format(entryDate(previous), "PPP")}.`
+                  : "No earlier review for this client."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 md:grid-cols-[1fr_160px_120px]">
+              <FormField
+                control={form.control}
+                name="companyName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Company</FormLabel>
+                    <FormControl>
+                      <Input list="sentiment-companies" autoComplete="off" {...field} />
+                    </FormControl>
+                    <datalist id="sentiment-companies">
+                      {companies.map((name) => (
+                        <option key={name} value={name} />
+                      ))}
+                    </datalist>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Review date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sentimentScore"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Score</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={SENTIMENT_SCORE_MAX}
+                        step={0.5}
+                        name={field.name}
+                        ref={field.ref}
+                        onBlur={field.onBlur}
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          field.onChange(e.target.value === "" ? undefined : e.target.valueAsNumber)
+                        }
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {SENTIMENT_TEXT_FIELDS.map(({ key, label }) => (
+              <FormField
+                key={key}
+                control={form.control}
+                name={key}
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between gap-2">
+                      <FormLabel>{label}</FormLabel>
+                      {key === "whatChangedFromLast" && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 flex items-center gap-1 text-xs"
+                          onClick={regenerateSummary}
+                        >
+                          <RefreshCw className="h-3 w-3" />
+                          Regenerate
+                        </Button>
+                      )}
+                    </div>
+                    <FormControl>
+                      <Textarea
+                        rows={key === "whatChangedFromLast" ? 4 : 2}
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => {
+                          if (key === "whatChangedFromLast") setAutoSummary(false);
+                          field.onChange(e);
+                        }}
+                      />
+                    </FormControl>
+                    {key === "whatChangedFromLast" && (
+                      <FormDescription>
+                        {autoSummary
+                          ? "Filled in from the differences with the previous review until you edit it."
+                          : "Edited by hand. Regenerate to fill it in from the previous review again."}
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <DialogFooter>
+              <Button type="submit" disabled={saveEntry.isPending}>
+                {saveEntry.isPending ? "Saving..." : "Save review"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
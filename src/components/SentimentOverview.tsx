@@ -0,0 +1,143 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useClientSentiment } from "@/hooks/use-client-sentiment";
+import { useRole } from "@/hooks/use-role";
+import { useTeamThresholds } from "@/hooks/use-sentiment-thresholds";
+import {
+  clientPath,
+  ClientSentiment,
+  findAtRiskClients,
+  SENTIMENT_SCORE_MAX,
+  scoreDistribution,
+  summarizeClients,
+} from "@/utils/sentimentUtils";
+import { SentimentScoreBadge } from "./SentimentScoreBadge";
+import { SentimentThresholdsDialog } from "./SentimentThresholdsDialog";
+
+const distributionChartConfig = {
+  clients: { label: "Clients", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const sparklineChartConfig = {
+  sentimentScore: { label: "Score", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+const Sparkline = ({ entries }: { entries: ClientSentiment[] }) => (
+  <ChartContainer config={sparklineChartConfig} className="h-8 w-24 aspect-auto">
+    <LineChart data={entries}>
+      <YAxis hide domain={[0, SENTIMENT_SCORE_MAX]} />
+      <Line
+        dataKey="sentimentScore"
+        stroke="var(--color-sentimentScore)"
+        strokeWidth={2}
+        dot={false}
+        isAnimationActive={false}
+        connectNulls
+      />
+    </LineChart>
+  </ChartContainer>
+);
+
+export const SentimentOverview = () => {
+  const { data: entries = [], isLoading } = useClientSentiment();
+  const { teams, teamId, selectTeam, thresholds } = useTeamThresholds();
+  const { can } = useRole();
+  const canEditThresholds = can("sentiment:edit");
+
+  const clients = useMemo(() => summarizeClients(entries), [entries]);
+  const atRisk = useMemo(() => findAtRiskClients(clients, thresholds), [clients, thresholds]);
+  const distribution = useMemo(() => scoreDistribution(clients), [clients]);
+  const team = teams.find((candidate) => candidate.id === teamId);
+
+  if (isLoading || clients.length === 0) return null;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_400px]">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              At risk
+            </CardTitle>
+            <CardDescription>
+              {atRisk.length} of {clients.length} clients flagged
+              {team ? ` using ${team.name}'s thresholds` : " using the default thresholds"}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {teams.length > 1 && (
+              <Select value={teamId ?? undefined} onValueChange={selectTeam}>
+                <SelectTrigger className="h-8 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {team && canEditThresholds && (
+              <SentimentThresholdsDialog teamId={team.id} teamName={team.name} thresholds={thresholds} />
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {atRisk.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No clients are currently at risk</div>
+          ) : (
+            <ul className="divide-y">
+              {atRisk.map(({ summary, reasons }) => (
+                <li key={summary.companyName} className="flex items-center justify-between gap-4 py-3">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Link to={clientPath(summary.companyName)} className="font-medium hover:underline truncate">
+                        {summary.companyName}
+                      </Link>
+                      <SentimentScoreBadge score={summary.latest.sentimentScore} />
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {reasons.map((reason) => (
+                        <Badge key={reason} variant="outline" className="text-xs font-normal">
+                          {reason}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Sparkline entries={summary.entries} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Score distribution</CardTitle>
+          <CardDescription>Latest sentiment score across the portfolio</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={distributionChartConfig} className="h-[260px] w-full aspect-auto">
+            <BarChart data={distribution}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="score" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(score) => `Score ${score}`} />} />
+              <Bar dataKey="clients" fill="var(--color-clients)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
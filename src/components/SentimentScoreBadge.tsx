@@ -0,0 +1,9 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { SENTIMENT_SCORE_MAX, scoreVariant } from "@/utils/sentimentUtils";
+
+export const SentimentScoreBadge = ({ score, className }: { score: number | null; className?: string }) => (
+  <Badge variant={scoreVariant(score)} className={cn("font-mono", className)}>
+    {score === null ? "-" : `${score}/${SENTIMENT_SCORE_MAX}`}
+  </Badge>
+);
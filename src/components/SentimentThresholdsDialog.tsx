@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { useSaveSentimentThresholds } from "@/hooks/use-sentiment-thresholds";
+import { SENTIMENT_SCORE_MAX, SentimentThresholds } from "@/utils/sentimentUtils";
+
+interface SentimentThresholdsDialogProps {
+  teamId: string;
+  teamName: string;
+  thresholds: SentimentThresholds;
+}
+
+export const SentimentThresholdsDialog = ({ teamId, teamName, thresholds }: SentimentThresholdsDialogProps) => {
+  const { toast } = useToast();
+  const saveThresholds = useSaveSentimentThresholds(teamId);
+  const [open, setOpen] = useState(false);
+  const [scoreDrop, setScoreDrop] = useState(String(thresholds.scoreDrop));
+  const [lowScore, setLowScore] = useState(String(thresholds.lowScore));
+  const [flagDowngradeIntentions, setFlagDowngradeIntentions] = useState(thresholds.flagDowngradeIntentions);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setScoreDrop(String(thresholds.scoreDrop));
+      setLowScore(String(thresholds.lowScore));
+      setFlagDowngradeIntentions(thresholds.flagDowngradeIntentions);
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const drop = Number(scoreDrop);
+    const low = Number(lowScore);
+    if (!scoreDrop || !(drop > 0) || !lowScore || !(low >= 0) || low > SENTIMENT_SCORE_MAX) {
+      toast({
+        title: "Error",
+        description: `Enter a score drop above 0 and a low score between 0 and ${SENTIMENT_SCORE_MAX}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveThresholds.mutateAsync({ scoreDrop: drop, lowScore: low, flagDowngradeIntentions });
+      toast({ title: "Thresholds saved", description: `Churn-risk alerts for ${teamName} updated.` });
+      setOpen(false);
+    } catch (error) {
+      console.error("Error saving sentiment thresholds:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save thresholds",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Thresholds
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Churn-risk thresholds</DialogTitle>
+            <DialogDescription>Applied to every client for {teamName}.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="score-drop">Flag a drop between reviews of at least</Label>
+            <Input
+              id="score-drop"
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={scoreDrop}
+              onChange={(e) => setScoreDrop(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="low-score">Flag a latest score at or below</Label>
+            <Input
+              id="low-score"
+              type="number"
+              min={0}
+              max={SENTIMENT_SCORE_MAX}
+              step={0.5}
+              value={lowScore}
+              onChange={(e) => setLowScore(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="flag-downgrade">Flag clients with downgrade intentions</Label>
+            <Switch
+              id="flag-downgrade"
+              checked={flagDowngradeIntentions}
+              onCheckedChange={setFlagDowngradeIntentions}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={saveThresholds.isPending}>
+              {saveThresholds.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,81 @@
+import { useNavigate } from "react-router-dom";
+import { History, LogOut, MessageSquare } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRole } from "@/hooks/use-role";
+import { ROLE_LABELS } from "@/lib/permissions";
+import { chatHistoryPath, chatPath } from "@/utils/chatUtils";
+
+export function UserMenu() {
+  const { user, signOut } = useAuth();
+  const { roles, can } = useRole();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  if (!user) return null;
+
+  const email = user.email ?? "";
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error("Error signing out:", error);
+      toast({
+        title: "Error",
+        description: "Failed to sign out. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className="h-10 w-10 rounded-full p-0" aria-label="Open user menu">
+          <Avatar className="h-9 w-9">
+            <AvatarFallback>{email.slice(0, 2).toUpperCase() || "?"}</AvatarFallback>
+          </Avatar>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal">
+          <div className="text-xs text-muted-foreground">Signed in as</div>
+          <div className="text-sm truncate">{email}</div>
+          {roles.length > 0 && (
+            <div className="text-xs text-muted-foreground mt-1">
+              {roles.map((role) => ROLE_LABELS[role]).join(", ")}
+            </div>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {can("chats:start") && (
+          <DropdownMenuItem onSelect={() => navigate(chatPath())}>
+            <MessageSquare className="mr-2 h-4 w-4" />
+            Agent chat
+          </DropdownMenuItem>
+        )}
+        {can("chats:history") && (
+          <DropdownMenuItem onSelect={() => navigate(chatHistoryPath())}>
+            <History className="mr-2 h-4 w-4" />
+            Conversation history
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onSelect={handleSignOut}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,59 @@
+import { QueryClient } from "@tanstack/react-query";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentChat, ChatMessage } from "@/utils/chatUtils";
+import { sendChatMessage } from "./use-agent-chat";
+
+const { rpc, insert, sendMessage } = vi.hoisted(() => {
+  const insert = vi.fn((row: Record<string, unknown>) => ({
+    select: () => ({ single: async () => ({ data: { id: 1, ...row }, error: null }) }),
+  }));
+  return { rpc: vi.fn(), insert, sendMessage: vi.fn() };
+});
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { rpc, from: () => ({ insert }) } }));
+vi.mock("@/lib/assistantBackend", () => ({ assistantBackend: { sendMessage } }));
+vi.mock("@/lib/embeddings", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/embeddings")>()),
+  embeddingProvider: { name: "test", dimensions: 2, embed: async () => [[0.1, 0.2]] },
+}));
+
+const chat = { id: 7, thread_id: "thread-1", assistant_id: "asst-1" } as AgentChat;
+
+beforeEach(() => {
+  rpc.mockReset();
+  insert.mockClear();
+  sendMessage.mockReset();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("sendChatMessage", () => {
+  it("grounds the message in incidents through match_chat_context, which every chat role may call", async () => {
+    rpc.mockResolvedValueOnce({
+      data: [{ id: 12, snippet: "Van broken into overnight", metadata: { locationOfIncident: "Leeds" }, similarity: 0.8 }],
+      error: null,
+    });
+    const queryClient = new QueryClient();
+
+    await sendChatMessage(chat, "Any thefts in Leeds?", queryClient);
+
+    expect(rpc).toHaveBeenCalledWith("match_chat_context", { query_embedding: "[0.1,0.2]", match_count: 5 });
+    const citation = { documentId: 12, label: "Leeds" };
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ role: "user", context_documents: [citation] }));
+    expect(sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chatId: 7,
+        content: "Any thefts in Leeds?",
+        context: [expect.objectContaining({ ...citation, content: "Van broken into overnight" })],
+      })
+    );
+    expect(queryClient.getQueryData<ChatMessage[]>(["chat_responses", 7])).toHaveLength(1);
+  });
+
+  it("still sends the message when the lookup is refused", async () => {
+    rpc.mockResolvedValueOnce({ data: null, error: { code: "42501", message: "Not allowed to chat with agents" } });
+
+    await sendChatMessage(chat, "Hello", new QueryClient());
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ context_documents: [] }));
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ context: [] }));
+  });
+});
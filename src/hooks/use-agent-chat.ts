@@ -0,0 +1,156 @@
+import { useEffect } from "react";
+import { QueryClient, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { assistantBackend } from "@/lib/assistantBackend";
+import { ContextDocument, retrieveChatContext } from "@/lib/chatContext";
+import type { Agent } from "@/utils/agentUtils";
+import { AgentChat, CHAT_MESSAGE_COLUMNS, ChatMessage, mergeMessage } from "@/utils/chatUtils";
+
+/** The signed-in user's conversations, most recently active first. */
+export function useAgentChats() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["agent_chats", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("adconversion_agents_chats")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("updated_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as AgentChat[];
+    },
+    enabled: !!user,
+  });
+}
+
+/** Opens a thread with the agent's assistant and records the conversation. */
+export function useStartAgentChat() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (agent: Agent) => {
+      const threadId = await assistantBackend.startThread(agent.assistant_id);
+      const { data, error } = await supabase
+        .from("adconversion_agents_chats")
+        .insert({
+          assistant_id: agent.assistant_id,
+          assistant_name: agent.assistant_name,
+          assistant_description: agent.assistant_description,
+          industry_classification: agent.industry_classification,
+          thread_id: threadId,
+          conversation_id: crypto.randomUUID(),
+          user_id: user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as AgentChat;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["agent_chats"] });
+    },
+  });
+}
+
+/**
+ * Messages in a conversation, oldest first. Kept current through Supabase
+ * realtime, so replies appear (and grow, while streaming) without polling.
+ */
+export function useChatMessages(chatId: number | null) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (chatId === null) return;
+
+    const channel = supabase
+      .channel(`chat_responses:${chatId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "chat_responses", filter: `conversation_id=eq.${chatId}` },
+        (payload) => {
+          if (payload.eventType === "DELETE") return;
+          queryClient.setQueryData<ChatMessage[]>(["chat_responses", chatId], (messages = []) =>
+            mergeMessage(messages, payload.new as ChatMessage)
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [chatId, queryClient]);
+
+  return useQuery({
+    queryKey: ["chat_responses", chatId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("chat_responses")
+        .select(CHAT_MESSAGE_COLUMNS)
+        .eq("conversation_id", chatId)
+        .order("id", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as ChatMessage[];
+    },
+    enabled: chatId !== null,
+  });
+}
+
+/**
+ * Records the user's message with the incidents retrieved for it, then asks
+ * the assistant backend for a reply grounded in them.
+ */
+export async function sendChatMessage(chat: AgentChat, content: string, queryClient: QueryClient) {
+  // The assistant can still answer without incidents, so a failed lookup is not fatal
+  let context: ContextDocument[] = [];
+  try {
+    context = await retrieveChatContext(content);
+  } catch (error) {
+    console.error("Error retrieving chat context:", error);
+  }
+
+  const { data, error } = await supabase
+    .from("chat_responses")
+    .insert({
+      conversation_id: chat.id,
+      message_id: crypto.randomUUID(),
+      content,
+      role: "user",
+      context_documents: context.map(({ documentId, label }) => ({ documentId, label })),
+    })
+    .select(CHAT_MESSAGE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  // Show it straight away rather than waiting for the realtime echo
+  queryClient.setQueryData<ChatMessage[]>(["chat_responses", chat.id], (messages = []) =>
+    mergeMessage(messages, data as ChatMessage)
+  );
+  queryClient.invalidateQueries({ queryKey: ["agent_chats"] });
+
+  await assistantBackend.sendMessage({
+    chatId: chat.id,
+    threadId: chat.thread_id,
+    assistantId: chat.assistant_id,
+    content,
+    context,
+  });
+}
+
+export function useSendChatMessage(chat: AgentChat | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (content: string) => {
+      if (!chat) throw new Error("No conversation selected");
+      await sendChatMessage(chat, content, queryClient);
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Agent, AgentFields } from "@/utils/agentUtils";
+
+// Postgres unique_violation, raised by adconversion_agents_assistant_id_key
+const UNIQUE_VIOLATION = "23505";
+
+/** Every agent, including retired ones, by name. */
+export function useAgents() {
+  return useQuery({
+    queryKey: ["adconversion_agents"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("adconversion_agents")
+        .select("*")
+        .order("assistant_name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as Agent[];
+    },
+  });
+}
+
+/** Adds an agent, or updates the one with `id`. */
+export function useSaveAgent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, agent }: { id?: number; agent: AgentFields }) => {
+      const query = id
+        ? supabase.from("adconversion_agents").update(agent).eq("id", id)
+        : supabase.from("adconversion_agents").insert(agent);
+      const { data, error } = await query.select().single();
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error(`Another agent already uses assistant ID ${agent.assistant_id}`);
+      }
+      if (error) throw error;
+      return data as Agent;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["adconversion_agents"] });
+    },
+  });
+}
+
+/** Retires an agent, or brings a retired one back. */
+export function useSetAgentRetired() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, retired }: { id: number; retired: boolean }) => {
+      const { error } = await supabase
+        .from("adconversion_agents")
+        .update({ retired_at: retired ? new Date().toISOString() : null })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["adconversion_agents"] });
+    },
+  });
+}
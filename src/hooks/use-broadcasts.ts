@@ -0,0 +1,157 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { CHAT_MESSAGE_COLUMNS, ChatMessage } from "@/utils/chatUtils";
+
+// Older broadcasts drop out of the inbox
+const BROADCAST_LIMIT = 50;
+
+/** Recent broadcasts, newest first. */
+export function useBroadcasts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["broadcasts"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("chat_responses")
+        .select(CHAT_MESSAGE_COLUMNS)
+        .eq("is_broadcast", true)
+        .order("id", { ascending: false })
+        .limit(BROADCAST_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as ChatMessage[];
+    },
+    enabled: !!user,
+  });
+}
+
+/**
+ * Adds broadcasts to the cached feed as they are sent. Call it once, from the
+ * layout, rather than from each component showing broadcasts.
+ */
+export function useBroadcastSubscription() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel("broadcasts")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "chat_responses", filter: "is_broadcast=eq.true" },
+        (payload) => {
+          if (payload.eventType === "DELETE") return;
+          const broadcast = payload.new as ChatMessage;
+          queryClient.setQueryData<ChatMessage[]>(["broadcasts"], (broadcasts = []) =>
+            [broadcast, ...broadcasts.filter((existing) => existing.id !== broadcast.id)]
+              .sort((a, b) => b.id - a.id)
+              .slice(0, BROADCAST_LIMIT)
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+}
+
+/** Ids of the broadcasts the signed-in user has read. */
+export function useBroadcastReads() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["broadcast_reads", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("broadcast_reads")
+        .select("message_id")
+        .eq("user_id", user!.id);
+
+      if (error) throw error;
+      return (data || []).map((row) => row.message_id);
+    },
+    enabled: !!user,
+  });
+}
+
+export function useMarkBroadcastsRead() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (messageIds: number[]) => {
+      if (!user || messageIds.length === 0) return;
+      const { error } = await supabase
+        .from("broadcast_reads")
+        .upsert(
+          messageIds.map((messageId) => ({ user_id: user.id, message_id: messageId })),
+          { ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+    },
+    // Clear the unread state straight away; the refetch corrects it if the write failed
+    onMutate: (messageIds) => {
+      queryClient.setQueryData<number[]>(["broadcast_reads", user?.id], (read = []) => [
+        ...new Set([...read, ...messageIds]),
+      ]);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["broadcast_reads", user?.id] });
+    },
+  });
+}
+
+/** Recent broadcasts with the signed-in user's read state. */
+export function useBroadcastInbox() {
+  const { data: broadcasts = [], isLoading } = useBroadcasts();
+  const { data: readIds = [] } = useBroadcastReads();
+  const markRead = useMarkBroadcastsRead();
+
+  const read = new Set(readIds);
+  const unread = broadcasts.filter((broadcast) => !read.has(broadcast.id));
+
+  return {
+    broadcasts,
+    unread,
+    isLoading,
+    isRead: (id: number) => read.has(id),
+    markRead: (ids: number[]) => markRead.mutate(ids.filter((id) => !read.has(id))),
+  };
+}
+
+export function useSendBroadcast() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (content: string) => {
+      const { data, error } = await supabase
+        .from("chat_responses")
+        .insert({ content, is_broadcast: true, message_id: crypto.randomUUID(), created_by: user?.id })
+        .select(CHAT_MESSAGE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      // The sender has no need to be told about their own broadcast
+      const { error: readError } = await supabase
+        .from("broadcast_reads")
+        .insert({ user_id: user!.id, message_id: data.id });
+      if (readError) console.error("Error marking own broadcast read:", readError);
+
+      return data as ChatMessage;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["broadcasts"] });
+      queryClient.invalidateQueries({ queryKey: ["broadcast_reads", user?.id] });
+    },
+  });
+}
@@ -0,0 +1,147 @@
+import { useQuery } from "@tanstack/react-query";
+import { addDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { AgentChat, CHAT_MESSAGE_COLUMNS, ChatMessage } from "@/utils/chatUtils";
+import { fromIsoDate } from "@/utils/dateUtils";
+
+export interface ChatHistoryFilters {
+  search: string;
+  assistantId: string;
+  // ISO dates (yyyy-MM-dd), matched against when the conversation started
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const EMPTY_CHAT_HISTORY_FILTERS: ChatHistoryFilters = {
+  search: "",
+  assistantId: "",
+  dateFrom: "",
+  dateTo: "",
+};
+
+// Caps on what a single history search loads
+const HISTORY_LIMIT = 200;
+const AGENT_OPTIONS_LIMIT = 1000;
+
+export interface ChatSearchMatch {
+  count: number;
+  // The earliest matching message
+  firstMatch: string;
+}
+
+/**
+ * Conversations the user can see (their own, or everyone's for supervisors
+ * and admins), most recently active first. With a search, only those with a
+ * message matching it, along with what matched.
+ */
+export function useChatHistory(filters: ChatHistoryFilters) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["chat_history", filters],
+    queryFn: async () => {
+      const search = filters.search.trim();
+      // Whole days in the user's time zone
+      const createdFrom = filters.dateFrom ? fromIsoDate(filters.dateFrom).toISOString() : null;
+      const createdBefore = filters.dateTo ? addDays(fromIsoDate(filters.dateTo), 1).toISOString() : null;
+      const matches = new Map<number, ChatSearchMatch>();
+
+      if (search) {
+        const { data, error } = await supabase.rpc("search_agent_chats", {
+          _search: search,
+          _assistant_id: filters.assistantId || undefined,
+          _created_from: createdFrom ?? undefined,
+          _created_before: createdBefore ?? undefined,
+          _limit: HISTORY_LIMIT,
+        });
+
+        if (error) throw error;
+        for (const row of data || []) {
+          matches.set(row.conversation_id, { count: row.match_count, firstMatch: row.first_match });
+        }
+        if (matches.size === 0) return { chats: [] as AgentChat[], matches };
+      }
+
+      let query = supabase.from("adconversion_agents_chats").select("*");
+      if (search) query = query.in("id", [...matches.keys()]);
+      if (filters.assistantId) query = query.eq("assistant_id", filters.assistantId);
+      if (createdFrom) query = query.gte("created_at", createdFrom);
+      if (createdBefore) query = query.lt("created_at", createdBefore);
+
+      const { data, error } = await query.order("updated_at", { ascending: false }).limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      return { chats: (data || []) as AgentChat[], matches };
+    },
+    enabled: !!user,
+  });
+}
+
+/**
+ * One conversation by id, for links to a conversation that the current
+ * filters or the history limit leave out of the list. Null when it does not
+ * exist or the user cannot see it.
+ */
+export function useChatHistoryChat(chatId: number | null) {
+  return useQuery({
+    queryKey: ["chat_history", "chat", chatId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("adconversion_agents_chats")
+        .select("*")
+        .eq("id", chatId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as AgentChat | null;
+    },
+    enabled: chatId !== null,
+  });
+}
+
+/** The agents that appear in the user's visible conversations, for filtering by. */
+export function useChatHistoryAgents() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["chat_history", "agents"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("adconversion_agents_chats")
+        .select("assistant_id, assistant_name")
+        .not("assistant_id", "is", null)
+        .limit(AGENT_OPTIONS_LIMIT);
+
+      if (error) throw error;
+      const agents = new Map<string, string>();
+      for (const row of data || []) {
+        agents.set(row.assistant_id, row.assistant_name || row.assistant_id);
+      }
+      return [...agents.entries()]
+        .map(([assistantId, name]) => ({ assistantId, name }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** A conversation's messages in the order they were written. */
+export function useChatTranscript(chatId: number | null) {
+  return useQuery({
+    queryKey: ["chat_transcript", chatId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("chat_responses")
+        .select(CHAT_MESSAGE_COLUMNS)
+        .eq("conversation_id", chatId)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as ChatMessage[];
+    },
+    enabled: chatId !== null,
+  });
+}
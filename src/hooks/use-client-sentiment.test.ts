@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchSentimentEntries, SENTIMENT_PAGE_SIZE } from "./use-client-sentiment";
+
+// A table of `total` rows served `pageLimit` at a time, however many are asked for
+const { from, table } = vi.hoisted(() => {
+  const table = { total: 0, pageLimit: Infinity, ranges: [] as [number, number][], filters: [] as unknown[][] };
+  const builder = {
+    select: () => builder,
+    eq: (...args: unknown[]) => {
+      table.filters.push(args);
+      return builder;
+    },
+    order: () => builder,
+    range: (start: number, end: number) => {
+      table.ranges.push([start, end]);
+      const last = Math.min(end, start + table.pageLimit - 1, table.total - 1);
+      const data = Array.from({ length: Math.max(0, last - start + 1) }, (_, index) => ({ id: start + index + 1 }));
+      return Promise.resolve({ data, error: null, count: table.total });
+    },
+  };
+  return { table, from: vi.fn(() => builder) };
+});
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { from } }));
+
+beforeEach(() => {
+  Object.assign(table, { total: 0, pageLimit: Infinity, ranges: [], filters: [] });
+});
+
+describe("fetchSentimentEntries", () => {
+  it("reads past the first page instead of stopping at the API's row limit", async () => {
+    table.total = SENTIMENT_PAGE_SIZE * 2 + 5;
+    const rows = await fetchSentimentEntries();
+    expect(rows).toHaveLength(table.total);
+    expect(table.ranges).toEqual([
+      [0, SENTIMENT_PAGE_SIZE - 1],
+      [SENTIMENT_PAGE_SIZE, SENTIMENT_PAGE_SIZE * 2 - 1],
+      [SENTIMENT_PAGE_SIZE * 2, SENTIMENT_PAGE_SIZE * 3 - 1],
+    ]);
+  });
+
+  it("keeps going when the server returns smaller pages than requested", async () => {
+    Object.assign(table, { total: 25, pageLimit: 10 });
+    const rows = await fetchSentimentEntries();
+    expect(rows.map((row) => row.id)).toEqual(Array.from({ length: 25 }, (_, index) => index + 1));
+    expect(table.ranges.map(([start]) => start)).toEqual([0, 10, 20]);
+  });
+
+  it("filters by company and stops after one request for an empty result", async () => {
+    await expect(fetchSentimentEntries("Acme")).resolves.toEqual([]);
+    expect(table.filters).toEqual([["companyName", "Acme"]]);
+    expect(table.ranges).toHaveLength(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { ClientSentiment, SentimentEntry, sortEntries } from "@/utils/sentimentUtils";
+
+// Rows requested at a time. The API caps each response (1000 rows by default),
+// so a single unbounded select would quietly drop the rest.
+export const SENTIMENT_PAGE_SIZE = 1000;
+
+/** Every entry, or every entry for one company, oldest row first, read a page at a time. */
+export async function fetchSentimentEntries(companyName?: string): Promise<ClientSentiment[]> {
+  const rows: ClientSentiment[] = [];
+
+  for (;;) {
+    let query = supabase.from("Client Sentiment").select("*", { count: "exact" });
+    if (companyName !== undefined) query = query.eq("companyName", companyName);
+
+    const { data, error, count } = await query
+      .order("id", { ascending: true })
+      .range(rows.length, rows.length + SENTIMENT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    // Stop on the count rather than a short page, in case the server caps pages below our size
+    if (!data?.length || rows.length >= (count ?? 0)) return rows;
+  }
+}
+
+export function useClientSentiment() {
+  return useQuery({
+    queryKey: ["client_sentiment"],
+    queryFn: () => fetchSentimentEntries(),
+  });
+}
+
+/** Every sentiment entry for one company, oldest first. */
+export function useCompanySentiment(companyName: string) {
+  return useQuery({
+    queryKey: ["client_sentiment", "company", companyName],
+    queryFn: async () => sortEntries(await fetchSentimentEntries(companyName)),
+    enabled: companyName.length > 0,
+  });
+}
+
+/** Records a new review, or updates the one with `id`. */
+export function useSaveSentimentEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, entry }: { id?: number; entry: SentimentEntry }) => {
+      const query = id
+        ? supabase.from("Client Sentiment").update(entry).eq("id", id)
+        : supabase.from("Client Sentiment").insert(entry);
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      return data as ClientSentiment;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client_sentiment"] });
+    },
+  });
+}
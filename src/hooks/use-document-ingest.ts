@@ -0,0 +1,19 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ingestChunks, IngestOptions } from "@/lib/documentIngest";
+import type { PreparedChunk } from "@/utils/ingestUtils";
+
+/** Embeds and stores prepared chunks, then refreshes everything built on documents. */
+export function useIngestDocuments() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ chunks, ...options }: { chunks: PreparedChunk[] } & IngestOptions) =>
+      ingestChunks(chunks, options),
+    // Also after a failed or cancelled import, since earlier batches were stored
+    onSettled: () => {
+      for (const key of ["documents", "incident_map", "incident_analytics", "semantic_search"]) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+    },
+  });
+}
@@ -0,0 +1,121 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export const DOCUMENT_PAGE_SIZES = [20, 50, 100];
+
+export interface DocumentRecord {
+  id: number;
+  content: string;
+  metadata?: Json;
+  incident_date?: string | null;
+}
+
+export interface DocumentFilters {
+  location: string;
+  type: string;
+  content: string;
+  // yyyy-MM-dd
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const EMPTY_DOCUMENT_FILTERS: DocumentFilters = {
+  location: "",
+  type: "",
+  content: "",
+  dateFrom: "",
+  dateTo: "",
+};
+
+// Wraps a search term for ilike, escaping the pattern characters it contains
+function containsPattern(term: string): string {
+  return `%${term.trim().replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+// The subset of the PostgREST builder the shared filters need
+interface FilterableQuery {
+  ilike(column: string, pattern: string): this;
+  gte(column: string, value: unknown): this;
+  lte(column: string, value: unknown): this;
+}
+
+/** Applies the document filters shared by the table, map and analytics views. */
+export function applyDocumentFilters<Q extends FilterableQuery>(query: Q, filters: DocumentFilters): Q {
+  if (filters.content.trim()) {
+    query = query.ilike("content", containsPattern(filters.content));
+  }
+  if (filters.location.trim()) {
+    query = query.ilike("metadata->>locationOfIncident", containsPattern(filters.location));
+  }
+  if (filters.type.trim()) {
+    query = query.ilike("metadata->>incidentType", containsPattern(filters.type));
+  }
+  if (filters.dateFrom) {
+    query = query.gte("incident_date", filters.dateFrom);
+  }
+  if (filters.dateTo) {
+    query = query.lte("incident_date", filters.dateTo);
+  }
+  return query;
+}
+
+export function useDocumentsPage(page: number, pageSize: number, filters: DocumentFilters = EMPTY_DOCUMENT_FILTERS) {
+  return useQuery({
+    queryKey: ["documents", page, pageSize, filters],
+    queryFn: async () => {
+      const from = page * pageSize;
+      const query = applyDocumentFilters(
+        supabase.from("documents").select("id, content, metadata, incident_date", { count: "exact" }),
+        filters
+      );
+
+      const { data, error, count } = await query
+        .order("incident_date", { ascending: false, nullsFirst: false })
+        .order("id", { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw error;
+
+      return {
+        documents: (data || []) as DocumentRecord[],
+        total: count ?? 0,
+      };
+    },
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useDocument(id: number | null) {
+  return useQuery({
+    queryKey: ["documents", "detail", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("documents")
+        .select("id, content, metadata, incident_date")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as DocumentRecord | null;
+    },
+    enabled: id !== null,
+  });
+}
+
+export function useSimilarDocuments(id: number | null, matchCount = 5) {
+  return useQuery({
+    queryKey: ["documents", "similar", id, matchCount],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("match_similar_documents", {
+        doc_id: id,
+        match_count: matchCount,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: id !== null,
+    staleTime: 5 * 60 * 1000,
+  });
+}
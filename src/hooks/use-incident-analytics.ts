@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { applyDocumentFilters, DocumentFilters, DocumentRecord } from "@/hooks/use-documents";
+import { getDocumentIncident, Incident } from "@/utils/incidentUtils";
+
+// Rows fetched per request, and the most the dashboard aggregates at once
+const FETCH_BATCH_SIZE = 1000;
+export const ANALYTICS_INCIDENT_LIMIT = 10000;
+
+export function useIncidentAnalytics(filters: DocumentFilters) {
+  return useQuery({
+    queryKey: ["incident_analytics", filters],
+    queryFn: async () => {
+      const incidents: Incident[] = [];
+
+      for (let from = 0; from < ANALYTICS_INCIDENT_LIMIT; from += FETCH_BATCH_SIZE) {
+        const { data, error } = await applyDocumentFilters(
+          supabase.from("documents").select("id, metadata, incident_date"),
+          filters
+        )
+          .order("id", { ascending: false })
+          .range(from, from + FETCH_BATCH_SIZE - 1);
+
+        if (error) throw error;
+
+        const rows = (data || []) as Omit<DocumentRecord, "content">[];
+        incidents.push(...rows.map((row) => getDocumentIncident(row)));
+        if (rows.length < FETCH_BATCH_SIZE) {
+          return { incidents, truncated: false };
+        }
+      }
+
+      return { incidents, truncated: true };
+    },
+    staleTime: 60 * 1000,
+  });
+}
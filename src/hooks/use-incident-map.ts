@@ -0,0 +1,139 @@
+import { useMemo } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { createGazetteerGeocoder, geocoder, GeoPoint, withGeocodeCache } from "@/lib/geocoding";
+import { applyDocumentFilters, DocumentFilters, DocumentRecord } from "@/hooks/use-documents";
+import { getDocumentIncident, Incident } from "@/utils/incidentUtils";
+
+// Most recent incidents plotted at once; older ones are reachable by narrowing the dates
+export const MAP_INCIDENT_LIMIT = 1000;
+
+// Places the configured geocoder looks up per set of filters, most incidents
+// first. Nominatim allows one lookup a second, so this is about a minute.
+export const MAP_BACKGROUND_GEOCODE_LIMIT = 60;
+
+export interface MapIncident extends Incident {
+  id: number;
+  lat: number;
+  lng: number;
+}
+
+// Answers straight away, so incidents in known places are plotted before any
+// lookup the configured geocoder has to make online
+const offlineGeocoder = withGeocodeCache(createGazetteerGeocoder());
+
+// Module level so useQueries can tell the results have not changed between renders
+const combineLookups = (results: { data?: GeoPoint | null; isPending: boolean }[]) => ({
+  points: results.map((result) => result.data ?? null),
+  waiting: results.map((result) => result.isPending),
+});
+
+const geocodeKey = (query: string) => ["geocode", geocoder.name, query.trim().toLowerCase()];
+
+/**
+ * Incidents matching the filters, placed on the map. Those the offline
+ * gazetteer can place are returned at once; when another geocoder is
+ * configured, the remaining places are looked up in the background (up to
+ * MAP_BACKGROUND_GEOCODE_LIMIT) and their incidents added as they resolve.
+ */
+export function useIncidentMap(filters: DocumentFilters) {
+  const incidentsQuery = useQuery({
+    queryKey: ["incident_map", filters],
+    queryFn: async () => {
+      const query = applyDocumentFilters(
+        supabase
+          .from("documents")
+          .select("id, metadata, incident_date")
+          .not("metadata->>locationOfIncident", "is", null),
+        filters
+      );
+
+      const { data, error } = await query
+        .order("incident_date", { ascending: false, nullsFirst: false })
+        .order("id", { ascending: false })
+        .limit(MAP_INCIDENT_LIMIT);
+
+      if (error) throw error;
+
+      const incidents = ((data || []) as Omit<DocumentRecord, "content">[]).map((doc) => ({
+        id: doc.id,
+        ...getDocumentIncident(doc),
+      }));
+
+      const locations = [...new Set(incidents.map((incident) => incident.location).filter(Boolean))];
+      const points = new Map<string, GeoPoint | null>(
+        await Promise.all(
+          locations.map(async (location) => [location, await offlineGeocoder.geocode(location)] as const)
+        )
+      );
+
+      return { incidents, points, truncated: incidents.length === MAP_INCIDENT_LIMIT };
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const pending = useMemo(() => {
+    if (!incidentsQuery.data || geocoder.name === offlineGeocoder.name) return [];
+    const counts = new Map<string, number>();
+    for (const { location } of incidentsQuery.data.incidents) {
+      if (location && !incidentsQuery.data.points.get(location)) {
+        counts.set(location, (counts.get(location) ?? 0) + 1);
+      }
+    }
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAP_BACKGROUND_GEOCODE_LIMIT)
+      .map(([location]) => location);
+  }, [incidentsQuery.data]);
+
+  // Shares its cache with useGeocode, so a place is only ever looked up once
+  const lookups = useQueries({
+    queries: pending.map((location) => ({
+      queryKey: geocodeKey(location),
+      queryFn: () => geocoder.geocode(location),
+      staleTime: Infinity,
+      retry: false,
+    })),
+    combine: combineLookups,
+  });
+
+  const data = useMemo(() => {
+    if (!incidentsQuery.data) return undefined;
+    const { incidents, points, truncated } = incidentsQuery.data;
+
+    const resolved = new Map(points);
+    const waiting = new Set<string>();
+    pending.forEach((location, index) => {
+      if (lookups.waiting[index]) waiting.add(location);
+      else resolved.set(location, lookups.points[index]);
+    });
+
+    const located: MapIncident[] = [];
+    let unlocated = 0;
+    for (const incident of incidents) {
+      const point = resolved.get(incident.location);
+      if (point) located.push({ ...incident, lat: point.lat, lng: point.lng });
+      else if (!waiting.has(incident.location)) unlocated += 1;
+    }
+
+    return { incidents: located, unlocated, locating: waiting.size, truncated };
+  }, [incidentsQuery.data, pending, lookups]);
+
+  return {
+    data,
+    isLoading: incidentsQuery.isLoading,
+    isFetching: incidentsQuery.isFetching || (data?.locating ?? 0) > 0,
+    error: incidentsQuery.error,
+  };
+}
+
+export function useGeocode(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: geocodeKey(trimmed),
+    queryFn: () => geocoder.geocode(trimmed),
+    enabled: trimmed.length > 0,
+    staleTime: Infinity,
+  });
+}
@@ -0,0 +1,98 @@
+import { useCallback, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { SiteRow } from "@/utils/csvUtils";
+import type { DateRange } from "@/utils/dateUtils";
+import { createReportJob, runReportJob } from "@/hooks/use-security-reports";
+
+// How many sites are sent to the workflow at the same time
+const BATCH_CONCURRENCY = 3;
+
+export type BatchItemStatus = "pending" | "running" | "succeeded" | "accepted" | "failed" | "cancelled";
+
+export interface BatchItem {
+  index: number;
+  location: string;
+  status: BatchItemStatus;
+  error?: string;
+}
+
+export interface ReportBatchOptions {
+  dateRange: DateRange;
+  // Used for rows that do not carry their own email
+  email: string;
+}
+
+function siteLocation(row: SiteRow): string {
+  return [row.site, row.address, row.postcode].filter(Boolean).join(", ");
+}
+
+export function useReportBatch() {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const updateItem = (index: number, changes: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.index === index ? { ...item, ...changes } : item)));
+  };
+
+  const start = useCallback(
+    async (rows: SiteRow[], options: ReportBatchOptions) => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const batchId = crypto.randomUUID();
+
+      setItems(rows.map((row) => ({ index: row.index, location: siteLocation(row), status: "pending" })));
+      setIsRunning(true);
+
+      const queue = [...rows];
+
+      const worker = async () => {
+        for (let row = queue.shift(); row; row = queue.shift()) {
+          if (controller.signal.aborted) {
+            updateItem(row.index, { status: "cancelled" });
+            continue;
+          }
+
+          updateItem(row.index, { status: "running" });
+          try {
+            const job = await createReportJob({
+              location: siteLocation(row),
+              dateRange: options.dateRange,
+              email: row.email || options.email,
+              batchId,
+            });
+            const { status, error } = await runReportJob(job, queryClient, controller.signal);
+            if (status === "failed") {
+              updateItem(row.index, controller.signal.aborted ? { status: "cancelled" } : { status: "failed", error });
+            } else {
+              updateItem(row.index, { status: status === "running" ? "accepted" : "succeeded" });
+            }
+          } catch (error) {
+            console.error("Error queueing batch report:", error);
+            updateItem(row.index, {
+              status: "failed",
+              error: error instanceof Error ? error.message : "Unknown error",
+            });
+          }
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, rows.length) }, worker));
+
+      controllerRef.current = null;
+      setIsRunning(false);
+    },
+    [queryClient]
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  return { items, isRunning, start, cancel, reset };
+}
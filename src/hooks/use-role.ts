@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { AppRole, Permission, hasPermission } from "@/lib/permissions";
+
+export function useRole() {
+  const { user } = useAuth();
+
+  const { data: roles = [], isLoading, error } = useQuery({
+    queryKey: ["user_roles", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user!.id);
+
+      if (error) throw error;
+      return (data || []).map((row) => row.role as AppRole);
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    roles,
+    isLoading,
+    error,
+    hasRole: (role: AppRole) => roles.includes(role),
+    can: (permission: Permission) => hasPermission(roles, permission),
+  };
+}
+
+export function usePermission(permission: Permission) {
+  const { can, isLoading } = useRole();
+  return { allowed: can(permission), isLoading };
+}
@@ -0,0 +1,134 @@
+import { QueryClient } from "@tanstack/react-query";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Tables } from "@/integrations/supabase/types";
+import { config } from "@/lib/config";
+import {
+  ACCEPTED_JOB_TIMEOUT_MS,
+  isJobStale,
+  retryableJobFilter,
+  retryReportJob,
+  runReportJob,
+} from "./use-security-reports";
+
+const { calls, from, requestSecurityReport } = vi.hoisted(() => {
+  const calls: { method: string; args: unknown[] }[] = [];
+  const builder: Record<string, unknown> = {};
+  for (const method of ["update", "eq", "or", "select"]) {
+    builder[method] = (...args: unknown[]) => {
+      calls.push({ method, args });
+      return builder;
+    };
+  }
+  builder.single = () => Promise.resolve({ data: builder.row, error: null });
+  builder.then = (resolve: (value: unknown) => void) => resolve({ error: null });
+  return {
+    calls,
+    from: Object.assign(vi.fn(() => builder), { builder }),
+    requestSecurityReport: vi.fn(),
+  };
+});
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { from } }));
+vi.mock("@/lib/reportWebhook", () => ({ requestSecurityReport }));
+
+const NOW = new Date("2025-06-01T12:00:00Z").getTime();
+const ago = (ms: number) => new Date(NOW - ms).toISOString();
+const timeoutMs = config.reportWebhook.timeoutMs;
+
+const row: Tables<"security_reports"> = {
+  id: "3f1c8a52-6c1e-4a55-9d8e-8f0b7a0c2d11",
+  location: "Leeds",
+  date_from: "2025-05-01",
+  date_to: "2025-05-31",
+  date_option: null,
+  email: "ops@example.com",
+  csv_content: null,
+  batch_id: null,
+  report_url: null,
+  status: "running",
+  error: null,
+  attempts: 1,
+  generated_at: ago(0),
+  created_at: ago(0),
+  created_by: null,
+  completed_at: null,
+  started_at: ago(0),
+  accepted_at: null,
+};
+
+const updates = () => calls.filter((call) => call.method === "update").map((call) => call.args[0]);
+
+beforeEach(() => {
+  calls.length = 0;
+  requestSecurityReport.mockReset();
+});
+
+describe("isJobStale", () => {
+  it("gives up on a job nobody accepted once the report timeout has passed", () => {
+    expect(isJobStale({ ...row, started_at: ago(timeoutMs + 1) }, NOW)).toBe(true);
+    expect(isJobStale({ ...row, status: "queued", started_at: ago(timeoutMs + 1) }, NOW)).toBe(true);
+    expect(isJobStale({ ...row, started_at: ago(timeoutMs - 1) }, NOW)).toBe(false);
+  });
+
+  it("waits much longer for a job the workflow accepted", () => {
+    const accepted = { ...row, started_at: ago(timeoutMs + 1) };
+    expect(isJobStale({ ...accepted, accepted_at: ago(timeoutMs) }, NOW)).toBe(false);
+    expect(isJobStale({ ...accepted, accepted_at: ago(ACCEPTED_JOB_TIMEOUT_MS + 1) }, NOW)).toBe(true);
+  });
+
+  it("never treats a finished job as stale", () => {
+    expect(isJobStale({ ...row, status: "succeeded", started_at: ago(ACCEPTED_JOB_TIMEOUT_MS * 2) }, NOW)).toBe(false);
+    expect(isJobStale({ ...row, status: "failed", started_at: ago(ACCEPTED_JOB_TIMEOUT_MS * 2) }, NOW)).toBe(false);
+  });
+});
+
+describe("retryableJobFilter", () => {
+  it("matches failed jobs and stale ones, with the longer timeout for accepted jobs", () => {
+    expect(retryableJobFilter(NOW)).toBe(
+      [
+        "status.eq.failed",
+        `and(status.in.(queued,running),accepted_at.is.null,started_at.lt.${ago(timeoutMs)})`,
+        `and(status.in.(queued,running),accepted_at.lt.${ago(ACCEPTED_JOB_TIMEOUT_MS)})`,
+      ].join(",")
+    );
+  });
+});
+
+describe("runReportJob", () => {
+  it("records that the workflow accepted the job and leaves it running", async () => {
+    requestSecurityReport.mockResolvedValueOnce(null);
+
+    await expect(runReportJob(row, new QueryClient())).resolves.toEqual({ status: "running" });
+    expect(updates()).toEqual([
+      expect.objectContaining({ status: "running", attempts: 2, accepted_at: null }),
+      { accepted_at: expect.any(String) },
+    ]);
+  });
+
+  it("completes the job when the workflow answers with the report", async () => {
+    requestSecurityReport.mockResolvedValueOnce({
+      location: "Leeds",
+      email: "ops@example.com",
+      urlOfSecurityReport: "https://reports.example/1.pdf",
+    });
+
+    await expect(runReportJob(row, new QueryClient())).resolves.toEqual({ status: "succeeded" });
+    expect(updates()[1]).toMatchObject({ status: "succeeded", report_url: "https://reports.example/1.pdf" });
+  });
+});
+
+describe("retryReportJob", () => {
+  it("only requeues the job if it failed or went stale, then runs it again", async () => {
+    from.builder.row = { ...row, status: "queued", started_at: new Date().toISOString() };
+    requestSecurityReport.mockResolvedValueOnce(null);
+
+    const report = await retryReportJob(row.id, new QueryClient());
+
+    expect(report.status).toBe("queued");
+    expect(updates()[0]).toMatchObject({ status: "queued", accepted_at: null });
+    expect(calls.find((call) => call.method === "or")?.args[0]).toMatch(/^status\.eq\.failed,/);
+    // The run itself is not awaited
+    await vi.waitFor(() =>
+      expect(requestSecurityReport).toHaveBeenCalledWith(expect.objectContaining({ jobId: row.id }), undefined)
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import { useMutation, useQuery, useQueryClient, keepPreviousData, QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { GeneratedReport, ReportStatus } from "@/components/ReportForm";
+import { config } from "@/lib/config";
+import { requestSecurityReport } from "@/lib/reportWebhook";
+import { DatePreset, DateRange, fromIsoDate, matchDatePreset, toIsoDate } from "@/utils/dateUtils";
+
+export const REPORTS_PAGE_SIZE = 10;
+
+const POLL_INTERVAL_MS = 5000;
+
+const securityReportsKey = ["security_reports"] as const;
+
+type SecurityReportRow = Tables<"security_reports">;
+
+export interface NewReportJob {
+  location: string;
+  dateRange: DateRange;
+  email: string;
+  csvContent?: string | null;
+  batchId?: string | null;
+}
+
+// Jobs the workflow accepted (HTTP 202) finish in the background and can take
+// far longer than the request timeout; they are only given up on after this
+export const ACCEPTED_JOB_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A job still queued or running after the report timeout, and never accepted
+ * by the workflow, was abandoned: jobs are sent from the tab that submitted
+ * them, so closing or refreshing it mid-request leaves the row behind.
+ * Accepted jobs get ACCEPTED_JOB_TIMEOUT_MS instead. Stale jobs are shown as
+ * failed and can be retried.
+ */
+export function isJobStale(
+  row: Pick<SecurityReportRow, "status" | "started_at" | "accepted_at">,
+  now = Date.now()
+) {
+  if (row.status !== "queued" && row.status !== "running") return false;
+  return row.accepted_at
+    ? now - new Date(row.accepted_at).getTime() > ACCEPTED_JOB_TIMEOUT_MS
+    : now - new Date(row.started_at).getTime() > config.reportWebhook.timeoutMs;
+}
+
+/** PostgREST filter for the jobs a retry may restart: failed or stale ones. */
+export function retryableJobFilter(now = Date.now()) {
+  const startedBefore = new Date(now - config.reportWebhook.timeoutMs).toISOString();
+  const acceptedBefore = new Date(now - ACCEPTED_JOB_TIMEOUT_MS).toISOString();
+  return [
+    "status.eq.failed",
+    `and(status.in.(queued,running),accepted_at.is.null,started_at.lt.${startedBefore})`,
+    `and(status.in.(queued,running),accepted_at.lt.${acceptedBefore})`,
+  ].join(",");
+}
+
+function toGeneratedReport(row: SecurityReportRow): GeneratedReport {
+  const stale = isJobStale(row);
+  return {
+    id: row.id,
+    location: row.location,
+    dateRange: { from: fromIsoDate(row.date_from), to: fromIsoDate(row.date_to) },
+    datePreset: row.date_option as DatePreset | null,
+    email: row.email,
+    reportUrl: row.report_url,
+    generatedAt: new Date(row.generated_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : null,
+    status: stale ? "failed" : (row.status as ReportStatus),
+    error: stale ? "The report did not finish in time. Retry to run it again." : row.error,
+    attempts: row.attempts,
+    batchId: row.batch_id,
+    createdBy: row.created_by,
+  };
+}
+
+export function isJobActive(report: Pick<GeneratedReport, "status">) {
+  return report.status === "queued" || report.status === "running";
+}
+
+async function updateJob(id: string, changes: TablesUpdate<"security_reports">) {
+  const { error } = await supabase.from("security_reports").update(changes).eq("id", id);
+  if (error) throw error;
+}
+
+export async function createReportJob(job: NewReportJob): Promise<SecurityReportRow> {
+  const { data, error } = await supabase
+    .from("security_reports")
+    .insert({
+      location: job.location,
+      date_from: toIsoDate(job.dateRange.from),
+      date_to: toIsoDate(job.dateRange.to),
+      date_option: matchDatePreset(job.dateRange),
+      email: job.email,
+      csv_content: job.csvContent || null,
+      batch_id: job.batchId || null,
+      status: "queued",
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Runs a queued job against the report workflow and records every state
+ * transition on the row, so any client watching the table sees progress.
+ * Resolves with the status the job was left in; "running" means the workflow
+ * accepted it and will complete the row itself.
+ */
+export async function runReportJob(
+  row: SecurityReportRow,
+  queryClient: QueryClient,
+  signal?: AbortSignal
+): Promise<{ status: ReportStatus; error?: string }> {
+  const refresh = () => queryClient.invalidateQueries({ queryKey: securityReportsKey });
+
+  try {
+    await updateJob(row.id, {
+      status: "running",
+      error: null,
+      attempts: row.attempts + 1,
+      started_at: new Date().toISOString(),
+      accepted_at: null,
+    });
+    refresh();
+
+    const result = await requestSecurityReport({
+      jobId: row.id,
+      location: row.location,
+      dateFrom: row.date_from,
+      dateTo: row.date_to,
+      dateOption: row.date_option,
+      email: row.email,
+      csvContent: row.csv_content,
+    }, signal);
+
+    // Accepted for background processing: the workflow completes the row.
+    // Recording that keeps the job from being treated as abandoned; failing to
+    // does not fail the job, which the workflow is already working on.
+    if (!result) {
+      await updateJob(row.id, { accepted_at: new Date().toISOString() }).catch((updateError) =>
+        console.error("Error recording accepted job:", updateError)
+      );
+      return { status: "running" };
+    }
+
+    await updateJob(row.id, {
+      status: "succeeded",
+      location: result.location,
+      email: result.email,
+      report_url: result.urlOfSecurityReport,
+      completed_at: new Date().toISOString(),
+    });
+    return { status: "succeeded" };
+  } catch (error) {
+    console.error("Error generating report:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await updateJob(row.id, {
+      status: "failed",
+      error: message,
+      completed_at: new Date().toISOString(),
+    }).catch((updateError) => console.error("Error recording failed job:", updateError));
+    return { status: "failed", error: message };
+  } finally {
+    refresh();
+  }
+}
+
+export function useSecurityReports(page: number, pageSize: number = REPORTS_PAGE_SIZE) {
+  return useQuery({
+    queryKey: [...securityReportsKey, page, pageSize],
+    queryFn: async () => {
+      const from = page * pageSize;
+      const { data, error, count } = await supabase
+        .from("security_reports")
+        .select("*", { count: "exact" })
+        .order("generated_at", { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw error;
+
+      return {
+        reports: (data || []).map(toGeneratedReport),
+        total: count ?? 0,
+      };
+    },
+    placeholderData: keepPreviousData,
+    // Keep polling while any visible job is still in flight
+    refetchInterval: (query) =>
+      query.state.data?.reports.some(isJobActive) ? POLL_INTERVAL_MS : false,
+  });
+}
+
+export function useSubmitReportJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (job: NewReportJob) => {
+      const data = await createReportJob(job);
+
+      void runReportJob(data, queryClient);
+      return toGeneratedReport(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: securityReportsKey });
+    },
+  });
+}
+
+/**
+ * Puts a failed or stale job back in the queue and runs it again. Jobs that
+ * are still in progress are left alone, so a report is not generated twice.
+ */
+export async function retryReportJob(id: string, queryClient: QueryClient): Promise<GeneratedReport> {
+  const { data, error } = await supabase
+    .from("security_reports")
+    .update({
+      status: "queued",
+      error: null,
+      completed_at: null,
+      started_at: new Date().toISOString(),
+      accepted_at: null,
+    })
+    .eq("id", id)
+    .or(retryableJobFilter())
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  void runReportJob(data, queryClient);
+  return toGeneratedReport(data);
+}
+
+export function useRetryReportJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => retryReportJob(id, queryClient),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: securityReportsKey });
+    },
+  });
+}
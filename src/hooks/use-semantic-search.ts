@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { embeddingProvider, toVectorLiteral } from "@/lib/embeddings";
+
+export type DocumentMatch = Database["public"]["Functions"]["match_documents"]["Returns"][number];
+
+export interface SemanticSearchParams {
+  query: string;
+  matchCount: number;
+  // Matched against documents.metadata with jsonb containment
+  filter: Record<string, string>;
+}
+
+export async function matchDocuments(
+  embedding: number[],
+  matchCount: number,
+  filter: Json = {}
+): Promise<DocumentMatch[]> {
+  const { data, error } = await supabase.rpc("match_documents", {
+    query_embedding: toVectorLiteral(embedding),
+    match_count: matchCount,
+    filter,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export function useSemanticSearch({ query, matchCount, filter }: SemanticSearchParams) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ["semantic_search", embeddingProvider.name, trimmed, matchCount, filter],
+    queryFn: async () => {
+      const [embedding] = await embeddingProvider.embed([trimmed]);
+      return matchDocuments(embedding, matchCount, filter);
+    },
+    enabled: trimmed.length > 0,
+    staleTime: 60 * 1000,
+  });
+}
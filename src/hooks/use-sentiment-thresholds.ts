@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { DEFAULT_SENTIMENT_THRESHOLDS, SentimentThresholds } from "@/utils/sentimentUtils";
+
+export interface Team {
+  id: string;
+  name: string;
+}
+
+export function useMyTeams() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["teams", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("team_members")
+        .select("teams(id, name)")
+        .eq("user_id", user!.id);
+
+      if (error) throw error;
+      return (data || [])
+        .map((row) => row.teams as Team | null)
+        .filter(Boolean)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** The team's saved thresholds, or the defaults when it has none (or no team is given). */
+export function useSentimentThresholds(teamId: string | null) {
+  return useQuery({
+    queryKey: ["sentiment_thresholds", teamId],
+    queryFn: async (): Promise<SentimentThresholds> => {
+      const { data, error } = await supabase
+        .from("sentiment_thresholds")
+        .select("score_drop, low_score, flag_downgrade_intentions")
+        .eq("team_id", teamId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return DEFAULT_SENTIMENT_THRESHOLDS;
+      return {
+        scoreDrop: data.score_drop,
+        lowScore: data.low_score,
+        flagDowngradeIntentions: data.flag_downgrade_intentions,
+      };
+    },
+    enabled: teamId !== null,
+    placeholderData: DEFAULT_SENTIMENT_THRESHOLDS,
+  });
+}
+
+export function useSaveSentimentThresholds(teamId: string | null) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (thresholds: SentimentThresholds) => {
+      const { error } = await supabase.from("sentiment_thresholds").upsert({
+        team_id: teamId,
+        score_drop: thresholds.scoreDrop,
+        low_score: thresholds.lowScore,
+        flag_downgrade_intentions: thresholds.flagDowngradeIntentions,
+        updated_at: new Date().toISOString(),
+        updated_by: user?.id,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sentiment_thresholds", teamId] });
+    },
+  });
+}
+
+// Remembers which team's thresholds to apply for people in more than one team
+const SELECTED_TEAM_KEY = "sentiment-team";
+
+/** The signed-in user's teams, the one currently selected, and its thresholds. */
+export function useTeamThresholds() {
+  const { data: teams = [], isLoading: teamsLoading } = useMyTeams();
+  const [selectedTeamId, setSelectedTeamId] = useState(() => localStorage.getItem(SELECTED_TEAM_KEY));
+
+  const teamId = teams.find((team) => team.id === selectedTeamId)?.id ?? teams[0]?.id ?? null;
+  const { data: thresholds = DEFAULT_SENTIMENT_THRESHOLDS, isLoading: thresholdsLoading } =
+    useSentimentThresholds(teamId);
+
+  const selectTeam = (id: string) => {
+    localStorage.setItem(SELECTED_TEAM_KEY, id);
+    setSelectedTeamId(id);
+  };
+
+  return {
+    teams,
+    teamId,
+    selectTeam,
+    thresholds,
+    isLoading: teamsLoading || thresholdsLoading,
+  };
+}
@@ -22,6 +22,7 @@ export type Database = {
           created_at: string
           id: number
           industry_classification: string | null
+          retired_at: string | null
         }
         Insert: {
           assistant_description?: string | null
@@ -30,6 +31,7 @@ export type Database = {
           created_at?: string
           id?: number
           industry_classification?: string | null
+          retired_at?: string | null
         }
         Update: {
           assistant_description?: string | null
@@ -38,6 +40,7 @@ export type Database = {
           created_at?: string
           id?: number
           industry_classification?: string | null
+          retired_at?: string | null
         }
         Relationships: []
       }
@@ -51,6 +54,9 @@ export type Database = {
           id: number
           industry_classification: string | null
           thread_id: string | null
+          title: string | null
+          updated_at: string
+          user_id: string | null
         }
         Insert: {
           assistant_description?: string | null
@@ -61,6 +67,9 @@ export type Database = {
           id?: number
           industry_classification?: string | null
           thread_id?: string | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string | null
         }
         Update: {
           assistant_description?: string | null
@@ -71,33 +80,74 @@ export type Database = {
           id?: number
           industry_classification?: string | null
           thread_id?: string | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string | null
         }
         Relationships: []
       }
+      broadcast_reads: {
+        Row: {
+          message_id: number
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          message_id: number
+          read_at?: string
+          user_id: string
+        }
+        Update: {
+          message_id?: number
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "broadcast_reads_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_responses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_responses: {
         Row: {
           content: string
-          conversation_id: number
+          content_search: unknown
+          context_documents: Json | null
+          conversation_id: number | null
           created_at: string | null
+          created_by: string | null
           id: number
           is_broadcast: boolean | null
           message_id: string
+          role: string
         }
         Insert: {
           content: string
-          conversation_id: number
+          content_search?: never
+          context_documents?: Json | null
+          conversation_id?: number | null
           created_at?: string | null
+          created_by?: string | null
           id?: never
           is_broadcast?: boolean | null
           message_id: string
+          role?: string
         }
         Update: {
           content?: string
-          conversation_id?: number
+          content_search?: never
+          context_documents?: Json | null
+          conversation_id?: number | null
           created_at?: string | null
+          created_by?: string | null
           id?: never
           is_broadcast?: boolean | null
           message_id?: string
+          role?: string
         }
         Relationships: []
       }
@@ -170,24 +220,193 @@ export type Database = {
       documents: {
         Row: {
           content: string | null
+          content_hash: string | null
           embedding: string | null
           id: number
+          incident_date: string | null
           metadata: Json | null
         }
         Insert: {
           content?: string | null
+          content_hash?: string | null
           embedding?: string | null
           id?: number
+          incident_date?: string | null
           metadata?: Json | null
         }
         Update: {
           content?: string | null
+          content_hash?: string | null
           embedding?: string | null
           id?: number
+          incident_date?: string | null
           metadata?: Json | null
         }
         Relationships: []
       }
+      security_reports: {
+        Row: {
+          accepted_at: string | null
+          attempts: number
+          batch_id: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          csv_content: string | null
+          date_from: string
+          date_option: string | null
+          date_to: string
+          email: string
+          error: string | null
+          generated_at: string
+          id: string
+          location: string
+          report_url: string | null
+          started_at: string
+          status: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          attempts?: number
+          batch_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          csv_content?: string | null
+          date_from: string
+          date_option?: string | null
+          date_to: string
+          email: string
+          error?: string | null
+          generated_at?: string
+          id?: string
+          location: string
+          report_url?: string | null
+          started_at?: string
+          status?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          attempts?: number
+          batch_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          csv_content?: string | null
+          date_from?: string
+          date_option?: string | null
+          date_to?: string
+          email?: string
+          error?: string | null
+          generated_at?: string
+          id?: string
+          location?: string
+          report_url?: string | null
+          started_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      sentiment_thresholds: {
+        Row: {
+          flag_downgrade_intentions: boolean
+          low_score: number
+          score_drop: number
+          team_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          flag_downgrade_intentions?: boolean
+          low_score?: number
+          score_drop?: number
+          team_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          flag_downgrade_intentions?: boolean
+          low_score?: number
+          score_drop?: number
+          team_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sentiment_thresholds_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: true
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          created_at: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -197,6 +416,22 @@ export type Database = {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      can_view_agent_chat: {
+        Args: { _conversation_id: number }
+        Returns: boolean
+      }
+      classify_incident_severity: {
+        Args: { _incident_type: string }
+        Returns: string
+      }
+      extract_incident_date: {
+        Args: { _content: string }
+        Returns: string
+      }
+      extract_incident_metadata: {
+        Args: { _content: string }
+        Returns: Json
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -213,6 +448,20 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      has_any_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       hnsw_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -229,6 +478,10 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      is_team_member: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -249,6 +502,15 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: unknown
       }
+      match_chat_context: {
+        Args: { match_count?: number; query_embedding: string }
+        Returns: {
+          id: number
+          metadata: Json
+          similarity: number
+          snippet: string
+        }[]
+      }
       match_documents: {
         Args: { filter?: Json; match_count?: number; query_embedding: string }
         Returns: {
@@ -258,6 +520,33 @@ export type Database = {
           similarity: number
         }[]
       }
+      match_similar_documents: {
+        Args: { doc_id: number; match_count?: number }
+        Returns: {
+          content: string
+          id: number
+          metadata: Json
+          similarity: number
+        }[]
+      }
+      owns_agent_chat: {
+        Args: { _conversation_id: number }
+        Returns: boolean
+      }
+      search_agent_chats: {
+        Args: {
+          _assistant_id?: string
+          _created_before?: string
+          _created_from?: string
+          _limit?: number
+          _search: string
+        }
+        Returns: {
+          conversation_id: number
+          first_match: string
+          match_count: number
+        }[]
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -296,7 +585,7 @@ export type Database = {
       }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "guard" | "supervisor" | "account_manager" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -423,6 +712,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["guard", "supervisor", "account_manager", "admin"],
+    },
   },
 } as const
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  AssistantRequest,
+  createAssistantBackend,
+  createEchoAssistantBackend,
+  createWebhookAssistantBackend,
+} from "./assistantBackend";
+
+const { invoke, getSession } = vi.hoisted(() => ({
+  invoke: vi.fn(),
+  getSession: vi.fn(async () => ({ data: { session: { access_token: "user-token" } }, error: null })),
+}));
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { functions: { invoke }, auth: { getSession } } }));
+
+const WEBHOOK_URL = "https://assistant.example/webhook";
+
+const request: AssistantRequest = {
+  chatId: 7,
+  threadId: "thread-1",
+  assistantId: "asst-1",
+  content: "Any thefts near the depot?",
+  context: [],
+};
+
+const mockFetch = (response: Response) => {
+  const fetch = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createWebhookAssistantBackend", () => {
+  const backend = createWebhookAssistantBackend(WEBHOOK_URL);
+
+  it("opens a thread and returns its id", async () => {
+    const fetch = mockFetch(Response.json({ threadId: "thread-9" }));
+    await expect(backend.startThread("asst-1")).resolves.toBe("thread-9");
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({ action: "startThread", assistantId: "asst-1" });
+  });
+
+  it("rejects a thread response without an id", async () => {
+    mockFetch(Response.json({}));
+    await expect(backend.startThread("asst-1")).rejects.toThrow("did not return a thread id");
+  });
+
+  it("posts the message with its context and the caller's access token", async () => {
+    const fetch = mockFetch(new Response(null, { status: 202 }));
+    await backend.sendMessage(request);
+    expect(fetch).toHaveBeenCalledWith(WEBHOOK_URL, expect.objectContaining({ method: "POST" }));
+    expect(fetch.mock.calls[0][1].headers).toMatchObject({ Authorization: "Bearer user-token" });
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({ action: "sendMessage", ...request });
+  });
+
+  it("sends nothing without a signed-in user", async () => {
+    const fetch = mockFetch(new Response(null, { status: 202 }));
+    getSession.mockResolvedValueOnce({ data: { session: null }, error: null });
+    await expect(backend.sendMessage(request)).rejects.toThrow("Sign in");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("reports the status and body of a failed request", async () => {
+    mockFetch(new Response("thread not found", { status: 404 }));
+    await expect(backend.sendMessage(request)).rejects.toThrow("status: 404 (thread not found)");
+  });
+});
+
+describe("createEchoAssistantBackend", () => {
+  const backend = createEchoAssistantBackend();
+
+  it("asks the chat-echo edge function to reply", async () => {
+    invoke.mockResolvedValueOnce({ data: { messageId: "m-1" }, error: null });
+    await backend.sendMessage(request);
+    expect(invoke).toHaveBeenCalledWith("chat-echo", { body: request });
+  });
+
+  it("surfaces edge function errors", async () => {
+    invoke.mockResolvedValueOnce({ data: null, error: new Error("Conversation not found") });
+    await expect(backend.sendMessage(request)).rejects.toThrow("Conversation not found");
+  });
+});
+
+describe("createAssistantBackend", () => {
+  it("picks the backend by name", () => {
+    expect(createAssistantBackend("echo").name).toBe("echo");
+    expect(createAssistantBackend("webhook", WEBHOOK_URL).name).toBe("webhook");
+  });
+
+  it("refuses a webhook backend without a URL instead of falling back to echo", () => {
+    expect(() => createAssistantBackend("webhook", undefined)).toThrow("VITE_CHAT_WEBHOOK_URL");
+  });
+});
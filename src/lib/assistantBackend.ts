@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { ContextDocument } from "@/lib/chatContext";
+import { config } from "@/lib/config";
+
+export interface AssistantRequest {
+  // adconversion_agents_chats.id, which replies are written against
+  chatId: number;
+  threadId: string;
+  assistantId: string;
+  content: string;
+  // Incidents retrieved for the question; replies cite them by position as [1], [2], ...
+  context: ContextDocument[];
+}
+
+/**
+ * Talks to the assistant behind an agent. Replies are not returned: the
+ * backend writes them to chat_responses (updating the row as it streams) and
+ * the chat page picks them up through realtime.
+ */
+export interface AssistantBackend {
+  name: string;
+  // Opens a thread on the assistant's side for a new conversation
+  startThread: (assistantId: string) => Promise<string>;
+  sendMessage: (request: AssistantRequest) => Promise<void>;
+}
+
+const startThreadResponseSchema = z.object({ threadId: z.string().min(1) });
+
+// The caller's access token goes with every request so the service can tell
+// who is asking: it must verify the token and, before replying, check with
+// owns_agent_chat (as the caller) that the chat is theirs.
+async function postJson(url: string, body: unknown): Promise<Response> {
+  const { data, error } = await supabase.auth.getSession();
+  if (error) throw error;
+  if (!data.session) {
+    throw new Error("Sign in to chat with an agent");
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${data.session.access_token}`,
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(`Assistant service responded with status: ${response.status}${detail ? ` (${detail})` : ""}`);
+  }
+  return response;
+}
+
+/** Hands messages to the assistant service, which replies into chat_responses with the service role. */
+export function createWebhookAssistantBackend(url: string): AssistantBackend {
+  return {
+    name: "webhook",
+    startThread: async (assistantId) => {
+      const response = await postJson(url, { action: "startThread", assistantId });
+      const parsed = startThreadResponseSchema.safeParse(await response.json().catch(() => null));
+      if (!parsed.success) {
+        throw new Error("Assistant service did not return a thread id");
+      }
+      return parsed.data.threadId;
+    },
+    sendMessage: async (request) => {
+      await postJson(url, { action: "sendMessage", ...request });
+    },
+  };
+}
+
+/**
+ * Development stand-in that repeats the message back through the chat-echo
+ * edge function, which streams the reply into chat_responses a few words at
+ * a time.
+ */
+export function createEchoAssistantBackend(): AssistantBackend {
+  return {
+    name: "echo",
+    startThread: async () => `echo-${crypto.randomUUID()}`,
+    sendMessage: async (request) => {
+      const { error } = await supabase.functions.invoke("chat-echo", { body: request });
+      if (error) throw error;
+    },
+  };
+}
+
+export function createAssistantBackend(
+  backend = config.chat.backend,
+  webhookUrl = config.chat.webhookUrl
+): AssistantBackend {
+  if (backend === "echo") return createEchoAssistantBackend();
+  if (!webhookUrl) {
+    throw new Error("The webhook chat backend needs VITE_CHAT_WEBHOOK_URL");
+  }
+  return createWebhookAssistantBackend(webhookUrl);
+}
+
+export const assistantBackend = createAssistantBackend();
@@ -0,0 +1,46 @@
+import { supabase } from "@/integrations/supabase/client";
+import { embeddingProvider, toVectorLiteral } from "@/lib/embeddings";
+import type { ChatCitation } from "@/utils/chatUtils";
+import { getDocumentIncident, Incident } from "@/utils/incidentUtils";
+
+// Incidents retrieved for each question
+export const CHAT_CONTEXT_DOCUMENTS = 5;
+
+export interface ContextDocument extends ChatCitation {
+  content: string;
+  similarity: number;
+  incident: Incident;
+}
+
+export function citationLabel(incident: Incident, documentId: number): string {
+  const parts = [incident.location, incident.incidentType, incident.date].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : `Incident #${documentId}`;
+}
+
+/**
+ * The incidents most similar to a question, most relevant first. Goes
+ * through match_chat_context rather than match_documents, so it works for
+ * every role that can chat, including those that cannot open documents.
+ */
+export async function retrieveChatContext(
+  question: string,
+  matchCount = CHAT_CONTEXT_DOCUMENTS
+): Promise<ContextDocument[]> {
+  const [embedding] = await embeddingProvider.embed([question]);
+  const { data, error } = await supabase.rpc("match_chat_context", {
+    query_embedding: toVectorLiteral(embedding),
+    match_count: matchCount,
+  });
+
+  if (error) throw error;
+  return (data || []).map((match) => {
+    const incident = getDocumentIncident(match);
+    return {
+      documentId: match.id,
+      label: citationLabel(incident, match.id),
+      content: match.snippet,
+      similarity: match.similarity,
+      incident,
+    };
+  });
+}
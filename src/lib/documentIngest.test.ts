@@ -0,0 +1,115 @@
+import { PGlite } from "@electric-sql/pglite";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import ingestionMigration from "../../supabase/migrations/20251020020000_document_ingestion.sql?raw";
+import { createLocalEmbeddingProvider } from "./embeddings";
+import { ingestChunks } from "./documentIngest";
+import type { PreparedChunk } from "@/utils/ingestUtils";
+
+const { from, upsert } = vi.hoisted(() => {
+  const upsert = vi.fn();
+  return { upsert, from: vi.fn(() => ({ upsert })) };
+});
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { from } }));
+vi.mock("@/lib/pdfText", () => ({ extractPdfText: vi.fn() }));
+
+const chunk = (content: string, duplicate: PreparedChunk["duplicate"] = null): PreparedChunk => ({
+  content,
+  label: content,
+  metadata: { chunkIndex: 0, chunkCount: 1 },
+  hash: content,
+  duplicate,
+});
+
+// The rows the insert reports back: every one except those listed as already stored
+const insertReturning = (stored: string[] = []) =>
+  upsert.mockImplementation((rows: { content: string }[]) => ({
+    select: () =>
+      Promise.resolve({
+        data: rows.filter((row) => !stored.includes(row.content)).map((_, id) => ({ id })),
+        error: null,
+      }),
+  }));
+
+describe("ingestChunks", () => {
+  const embedder = createLocalEmbeddingProvider(8);
+
+  beforeEach(() => {
+    upsert.mockReset();
+  });
+
+  it("inserts the new chunks in batches and skips duplicates flagged up front", async () => {
+    insertReturning();
+    const onProgress = vi.fn();
+    const chunks = [chunk("a"), chunk("b", "existing"), chunk("c"), chunk("d", "upload"), chunk("e")];
+
+    const result = await ingestChunks(chunks, { embedder, batchSize: 2, onProgress });
+
+    expect(result).toEqual({ total: 5, processed: 5, inserted: 3, skipped: 2 });
+    expect(upsert).toHaveBeenCalledTimes(2);
+    expect(upsert.mock.calls.map(([rows]) => rows.map((row: { content: string }) => row.content))).toEqual([
+      ["a", "c"],
+      ["e"],
+    ]);
+    expect(upsert.mock.calls[0][1]).toEqual({ onConflict: "content_hash", ignoreDuplicates: true });
+    expect(upsert.mock.calls[0][0][0].embedding).toMatch(/^\[.*\]$/);
+    expect(onProgress).toHaveBeenLastCalledWith(result);
+  });
+
+  it("counts chunks stored by someone else since they were prepared as skipped", async () => {
+    insertReturning(["b"]);
+    await expect(ingestChunks([chunk("a"), chunk("b")], { embedder })).resolves.toEqual({
+      total: 2,
+      processed: 2,
+      inserted: 1,
+      skipped: 1,
+    });
+  });
+
+  it("stops between batches once aborted", async () => {
+    const controller = new AbortController();
+    upsert.mockImplementation((rows: unknown[]) => {
+      controller.abort();
+      return { select: () => Promise.resolve({ data: rows, error: null }) };
+    });
+
+    await expect(
+      ingestChunks([chunk("a"), chunk("b")], { embedder, batchSize: 1, signal: controller.signal })
+    ).rejects.toThrow();
+    expect(upsert).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("documents.content_hash", () => {
+  let db: PGlite;
+
+  // Documents stored before the migration ran, including a repeat
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(`
+      create table public.documents (id bigserial primary key, content text, metadata jsonb);
+      insert into public.documents (content) values ('first'), ('second'), ('first'), (null);
+      ${ingestionMigration.slice(0, ingestionMigration.indexOf("grant select"))}
+    `);
+  });
+
+  const hashes = async () =>
+    (await db.query<{ content_hash: string | null }>("select content_hash from public.documents order by id")).rows.map(
+      (row) => row.content_hash
+    );
+
+  it("hashes existing rows, keeping the hash on the oldest copy of repeated content", async () => {
+    expect(await hashes()).toEqual([
+      "a7937b64b8caa58f03721bb6bacf5c78cb235febe0e70b1b84cd99541461a08e",
+      "16367aacb67a4a017c8da8ab95682ccb390863780f7114dda0a0e0c55644c7c4",
+      null,
+      null,
+    ]);
+  });
+
+  it("skips content that is already stored when inserting with on conflict do nothing", async () => {
+    const { rows } = await db.query(
+      "insert into public.documents (content) values ('second'), ('third') on conflict (content_hash) do nothing returning content"
+    );
+    expect(rows).toEqual([{ content: "third" }]);
+  });
+});
@@ -0,0 +1,128 @@
+import { supabase } from "@/integrations/supabase/client";
+import { EmbeddingProvider, embeddingProvider, toVectorLiteral } from "@/lib/embeddings";
+import { extractPdfText } from "@/lib/pdfText";
+import { parseCsv } from "@/utils/csvUtils";
+import {
+  buildIngestChunks,
+  csvToIngestDocuments,
+  IngestDefaults,
+  IngestDocument,
+  ingestSourceKind,
+  PreparedChunk,
+  sha256Hex,
+} from "@/utils/ingestUtils";
+
+// Chunks embedded and inserted per request
+export const INGEST_BATCH_SIZE = 20;
+
+// Hashes per duplicate lookup, keeping the query string a sensible length
+const HASH_LOOKUP_BATCH_SIZE = 100;
+
+export interface IngestProgress {
+  total: number;
+  processed: number;
+  inserted: number;
+  skipped: number;
+}
+
+export interface IngestOptions {
+  embedder?: EmbeddingProvider;
+  batchSize?: number;
+  onProgress?: (progress: IngestProgress) => void;
+  // Stops between batches; chunks already inserted stay
+  signal?: AbortSignal;
+}
+
+/** Reads an uploaded file into documents: one per CSV row, otherwise one for the whole file. */
+export async function readIngestFile(file: File): Promise<IngestDocument[]> {
+  const kind = ingestSourceKind(file.name);
+  if (kind === "csv") return csvToIngestDocuments(parseCsv(await file.text()), file.name);
+
+  const content = kind === "pdf" ? await extractPdfText(file) : await file.text();
+  return content.trim() ? [{ content, label: file.name, incident: {} }] : [];
+}
+
+/** The subset of `hashes` already stored in documents. */
+export async function findExistingHashes(hashes: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  const unique = [...new Set(hashes)];
+
+  for (let start = 0; start < unique.length; start += HASH_LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("documents")
+      .select("content_hash")
+      .in("content_hash", unique.slice(start, start + HASH_LOOKUP_BATCH_SIZE));
+
+    if (error) throw error;
+    for (const row of data || []) {
+      if (row.content_hash) existing.add(row.content_hash);
+    }
+  }
+
+  return existing;
+}
+
+/** Chunks documents, hashes each chunk and flags those that would be duplicates. */
+export async function prepareIngest(
+  documents: IngestDocument[],
+  defaults: IngestDefaults,
+  fileName: string | null
+): Promise<PreparedChunk[]> {
+  const chunks = buildIngestChunks(documents, defaults, fileName);
+  const hashes = await Promise.all(chunks.map((chunk) => sha256Hex(chunk.content)));
+  const existing = await findExistingHashes(hashes);
+  const seen = new Set<string>();
+
+  return chunks.map((chunk, index) => {
+    const hash = hashes[index];
+    const duplicate = existing.has(hash) ? "existing" : seen.has(hash) ? "upload" : null;
+    seen.add(hash);
+    return { ...chunk, hash, duplicate };
+  });
+}
+
+/**
+ * Embeds and inserts the chunks that are not duplicates, in batches,
+ * reporting progress after each one.
+ */
+export async function ingestChunks(
+  chunks: PreparedChunk[],
+  { embedder = embeddingProvider, batchSize = INGEST_BATCH_SIZE, onProgress, signal }: IngestOptions = {}
+): Promise<IngestProgress> {
+  const pending = chunks.filter((chunk) => !chunk.duplicate);
+  const progress: IngestProgress = {
+    total: chunks.length,
+    processed: chunks.length - pending.length,
+    inserted: 0,
+    skipped: chunks.length - pending.length,
+  };
+  onProgress?.({ ...progress });
+
+  for (let start = 0; start < pending.length; start += batchSize) {
+    signal?.throwIfAborted();
+
+    const batch = pending.slice(start, start + batchSize);
+    const embeddings = await embedder.embed(batch.map((chunk) => chunk.content));
+    // content_hash is set by a trigger; chunks stored since prepareIngest ran are skipped
+    const { data, error } = await supabase
+      .from("documents")
+      .upsert(
+        batch.map((chunk, index) => ({
+          content: chunk.content,
+          metadata: chunk.metadata,
+          embedding: toVectorLiteral(embeddings[index]),
+        })),
+        { onConflict: "content_hash", ignoreDuplicates: true }
+      )
+      .select("id");
+
+    if (error) throw error;
+    const inserted = data?.length ?? 0;
+    progress.processed += batch.length;
+    progress.inserted += inserted;
+    progress.skipped += batch.length - inserted;
+    onProgress?.({ ...progress });
+  }
+
+  return progress;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createEmbeddingProvider,
+  createLocalEmbeddingProvider,
+  createSupabaseEmbeddingProvider,
+  toVectorLiteral,
+} from "./embeddings";
+
+const { invoke } = vi.hoisted(() => ({ invoke: vi.fn() }));
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { functions: { invoke } } }));
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+describe("createLocalEmbeddingProvider", () => {
+  const provider = createLocalEmbeddingProvider(64);
+
+  it("returns one unit vector of the configured size per text", async () => {
+    const vectors = await provider.embed(["Suspicious vehicle at the gate", "Burglary reported"]);
+    expect(vectors).toHaveLength(2);
+    for (const vector of vectors) {
+      expect(vector).toHaveLength(64);
+      expect(dot(vector, vector)).toBeCloseTo(1);
+    }
+  });
+
+  it("is deterministic and ignores case and punctuation", async () => {
+    const [first, second] = await provider.embed(["Break-in at the WAREHOUSE.", "break in at the warehouse"]);
+    expect(first).toEqual(second);
+    expect(await createLocalEmbeddingProvider(64).embed(["Break-in at the WAREHOUSE."])).toEqual([first]);
+  });
+
+  it("ranks texts sharing words above unrelated ones", async () => {
+    const [query, related, unrelated] = await provider.embed([
+      "car park theft",
+      "theft from a car in the car park",
+      "noise complaint upstairs",
+    ]);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+
+  it("embeds text without words as the zero vector", async () => {
+    const [vector] = await provider.embed(["!!!"]);
+    expect(vector.every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe("createSupabaseEmbeddingProvider", () => {
+  const provider = createSupabaseEmbeddingProvider(2);
+
+  it("embeds through the embed edge function", async () => {
+    invoke.mockResolvedValueOnce({ data: { embeddings: [[1, 0]] }, error: null });
+    await expect(provider.embed(["hello"])).resolves.toEqual([[1, 0]]);
+    expect(invoke).toHaveBeenCalledWith("embed", { body: { input: ["hello"] } });
+  });
+
+  it("rejects a response with the wrong number of embeddings", async () => {
+    invoke.mockResolvedValueOnce({ data: { embeddings: [] }, error: null });
+    await expect(provider.embed(["hello"])).rejects.toThrow("unexpected response");
+  });
+});
+
+describe("createEmbeddingProvider", () => {
+  it("picks the provider by name", () => {
+    expect(createEmbeddingProvider("local", 8)).toMatchObject({ name: "local", dimensions: 8 });
+    expect(createEmbeddingProvider("supabase", 8)).toMatchObject({ name: "supabase", dimensions: 8 });
+  });
+});
+
+describe("toVectorLiteral", () => {
+  it("formats a vector for pgvector", () => {
+    expect(toVectorLiteral([0.5, -1, 0])).toBe("[0.5,-1,0]");
+  });
+});
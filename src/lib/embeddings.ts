@@ -0,0 +1,77 @@
+import { supabase } from "@/integrations/supabase/client";
+import { config } from "@/lib/config";
+
+export interface EmbeddingProvider {
+  name: string;
+  dimensions: number;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+/** Embeds text through the `embed` edge function (the production model). */
+export function createSupabaseEmbeddingProvider(dimensions: number): EmbeddingProvider {
+  return {
+    name: "supabase",
+    dimensions,
+    embed: async (texts) => {
+      const { data, error } = await supabase.functions.invoke<{ embeddings: number[][] }>("embed", {
+        body: { input: texts },
+      });
+      if (error) throw error;
+      if (!data?.embeddings || data.embeddings.length !== texts.length) {
+        throw new Error("Embedding service returned an unexpected response");
+      }
+      return data.embeddings;
+    },
+  };
+}
+
+// FNV-1a, so the same token always lands in the same dimension
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline, deterministic embedder using feature hashing of lower-cased word
+ * tokens. Texts sharing words get similar vectors, which is enough for
+ * development and tests without network access.
+ */
+export function createLocalEmbeddingProvider(dimensions: number): EmbeddingProvider {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+    for (const token of tokens) {
+      const hash = hashToken(token);
+      // Use the top bit for the sign to spread collisions around zero
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  };
+
+  return {
+    name: "local",
+    dimensions,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+export function createEmbeddingProvider(
+  provider = config.embeddings.provider,
+  dimensions = config.embeddings.dimensions
+): EmbeddingProvider {
+  return provider === "local"
+    ? createLocalEmbeddingProvider(dimensions)
+    : createSupabaseEmbeddingProvider(dimensions);
+}
+
+export const embeddingProvider = createEmbeddingProvider();
+
+/** Formats a vector the way pgvector expects it as an RPC argument. */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(",")}]`;
+}
@@ -0,0 +1,150 @@
+// Offline place list for the gazetteer geocoder. Coordinates are approximate
+// town/district centres, which is all the incident map needs.
+export interface GazetteerEntry {
+  name: string;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+export const UK_PLACES: GazetteerEntry[] = [
+  // London
+  { name: "London", lat: 51.5074, lng: -0.1278, aliases: ["Greater London", "Central London"] },
+  { name: "City of London", lat: 51.5155, lng: -0.0922, aliases: ["The City"] },
+  { name: "Westminster", lat: 51.4975, lng: -0.1357 },
+  { name: "Soho", lat: 51.5136, lng: -0.1365 },
+  { name: "Covent Garden", lat: 51.5117, lng: -0.124 },
+  { name: "Oxford Street", lat: 51.5152, lng: -0.1418 },
+  { name: "Leicester Square", lat: 51.5103, lng: -0.1301 },
+  { name: "Camden", lat: 51.539, lng: -0.1426, aliases: ["Camden Town"] },
+  { name: "Islington", lat: 51.5362, lng: -0.1033 },
+  { name: "Hackney", lat: 51.545, lng: -0.0553 },
+  { name: "Shoreditch", lat: 51.5263, lng: -0.0789 },
+  { name: "Tower Hamlets", lat: 51.5099, lng: -0.0059 },
+  { name: "Canary Wharf", lat: 51.5054, lng: -0.0235 },
+  { name: "Stratford", lat: 51.5416, lng: -0.0032 },
+  { name: "Greenwich", lat: 51.4826, lng: -0.0077 },
+  { name: "Lewisham", lat: 51.4452, lng: -0.0209 },
+  { name: "Southwark", lat: 51.5035, lng: -0.0804 },
+  { name: "Lambeth", lat: 51.4607, lng: -0.1163 },
+  { name: "Brixton", lat: 51.4613, lng: -0.1156 },
+  { name: "Wandsworth", lat: 51.4571, lng: -0.191 },
+  { name: "Clapham", lat: 51.4618, lng: -0.1384 },
+  { name: "Battersea", lat: 51.4743, lng: -0.1598 },
+  { name: "Kensington", lat: 51.4991, lng: -0.1938 },
+  { name: "Chelsea", lat: 51.4875, lng: -0.1687 },
+  { name: "Hammersmith", lat: 51.4927, lng: -0.2339 },
+  { name: "Fulham", lat: 51.4802, lng: -0.1953 },
+  { name: "Ealing", lat: 51.513, lng: -0.3089 },
+  { name: "Brent", lat: 51.5588, lng: -0.2817, aliases: ["Wembley"] },
+  { name: "Barnet", lat: 51.6252, lng: -0.1517 },
+  { name: "Enfield", lat: 51.6538, lng: -0.0799 },
+  { name: "Haringey", lat: 51.5906, lng: -0.111, aliases: ["Tottenham"] },
+  { name: "Walthamstow", lat: 51.5908, lng: -0.0134 },
+  { name: "Croydon", lat: 51.3762, lng: -0.0982 },
+  { name: "Bromley", lat: 51.406, lng: 0.0132 },
+  { name: "Kingston upon Thames", lat: 51.4123, lng: -0.3007, aliases: ["Kingston"] },
+  { name: "Richmond", lat: 51.4613, lng: -0.3037 },
+  { name: "Hounslow", lat: 51.4746, lng: -0.368 },
+  { name: "Heathrow", lat: 51.47, lng: -0.4543 },
+  { name: "Harrow", lat: 51.5806, lng: -0.3419 },
+  { name: "Romford", lat: 51.5768, lng: 0.1801 },
+  // England
+  { name: "Birmingham", lat: 52.4862, lng: -1.8904 },
+  { name: "Manchester", lat: 53.4808, lng: -2.2426 },
+  { name: "Salford", lat: 53.4875, lng: -2.2901 },
+  { name: "Liverpool", lat: 53.4084, lng: -2.9916 },
+  { name: "Leeds", lat: 53.8008, lng: -1.5491 },
+  { name: "Bradford", lat: 53.796, lng: -1.7594 },
+  { name: "Sheffield", lat: 53.3811, lng: -1.4701 },
+  { name: "Newcastle upon Tyne", lat: 54.9783, lng: -1.6178, aliases: ["Newcastle"] },
+  { name: "Sunderland", lat: 54.9069, lng: -1.3838 },
+  { name: "Middlesbrough", lat: 54.5742, lng: -1.2349 },
+  { name: "York", lat: 53.96, lng: -1.0873 },
+  { name: "Hull", lat: 53.7676, lng: -0.3274, aliases: ["Kingston upon Hull"] },
+  { name: "Nottingham", lat: 52.9548, lng: -1.1581 },
+  { name: "Derby", lat: 52.9225, lng: -1.4746 },
+  { name: "Leicester", lat: 52.6369, lng: -1.1398 },
+  { name: "Coventry", lat: 52.4068, lng: -1.5197 },
+  { name: "Wolverhampton", lat: 52.5862, lng: -2.1288 },
+  { name: "Stoke-on-Trent", lat: 53.0027, lng: -2.1794, aliases: ["Stoke"] },
+  { name: "Bristol", lat: 51.4545, lng: -2.5879 },
+  { name: "Bath", lat: 51.3811, lng: -2.359 },
+  { name: "Plymouth", lat: 50.3755, lng: -4.1427 },
+  { name: "Exeter", lat: 50.7184, lng: -3.5339 },
+  { name: "Southampton", lat: 50.9097, lng: -1.4044 },
+  { name: "Portsmouth", lat: 50.8198, lng: -1.088 },
+  { name: "Bournemouth", lat: 50.7192, lng: -1.8808 },
+  { name: "Brighton", lat: 50.8225, lng: -0.1372, aliases: ["Brighton and Hove"] },
+  { name: "Reading", lat: 51.4543, lng: -0.9781 },
+  { name: "Oxford", lat: 51.752, lng: -1.2577 },
+  { name: "Cambridge", lat: 52.2053, lng: 0.1218 },
+  { name: "Milton Keynes", lat: 52.0406, lng: -0.7594 },
+  { name: "Luton", lat: 51.8787, lng: -0.42 },
+  { name: "Watford", lat: 51.6565, lng: -0.3903 },
+  { name: "Slough", lat: 51.5105, lng: -0.5950 },
+  { name: "Guildford", lat: 51.2362, lng: -0.5704 },
+  { name: "Crawley", lat: 51.1091, lng: -0.1872 },
+  { name: "Gatwick", lat: 51.1537, lng: -0.1821 },
+  { name: "Canterbury", lat: 51.2802, lng: 1.0789 },
+  { name: "Maidstone", lat: 51.2704, lng: 0.5227 },
+  { name: "Chelmsford", lat: 51.7356, lng: 0.469 },
+  { name: "Colchester", lat: 51.8959, lng: 0.8919 },
+  { name: "Southend-on-Sea", lat: 51.5459, lng: 0.7077, aliases: ["Southend"] },
+  { name: "Ipswich", lat: 52.0567, lng: 1.1482 },
+  { name: "Norwich", lat: 52.6309, lng: 1.2974 },
+  { name: "Peterborough", lat: 52.5695, lng: -0.2405 },
+  { name: "Northampton", lat: 52.2405, lng: -0.9027 },
+  { name: "Gloucester", lat: 51.8642, lng: -2.2382 },
+  { name: "Cheltenham", lat: 51.8994, lng: -2.0783 },
+  { name: "Swindon", lat: 51.5558, lng: -1.7797 },
+  { name: "Preston", lat: 53.7632, lng: -2.7031 },
+  { name: "Blackpool", lat: 53.8175, lng: -3.0357 },
+  { name: "Lancaster", lat: 54.0466, lng: -2.8007 },
+  { name: "Carlisle", lat: 54.8925, lng: -2.9329 },
+  // Scotland, Wales and Northern Ireland
+  { name: "Glasgow", lat: 55.8642, lng: -4.2518 },
+  { name: "Edinburgh", lat: 55.9533, lng: -3.1883 },
+  { name: "Aberdeen", lat: 57.1497, lng: -2.0943 },
+  { name: "Dundee", lat: 56.462, lng: -2.9707 },
+  { name: "Inverness", lat: 57.4778, lng: -4.2247 },
+  { name: "Cardiff", lat: 51.4816, lng: -3.1791 },
+  { name: "Swansea", lat: 51.6214, lng: -3.9436 },
+  { name: "Newport", lat: 51.5842, lng: -2.9977 },
+  { name: "Belfast", lat: 54.5973, lng: -5.9301 },
+  { name: "Derry", lat: 54.9966, lng: -7.3086, aliases: ["Londonderry"] },
+];
+
+// Postcode areas (the leading letters of a postcode), used when an address
+// names no known place but does include a postcode
+export const UK_POSTCODE_AREAS: Record<string, { lat: number; lng: number }> = {
+  E: { lat: 51.5388, lng: -0.0326 },
+  EC: { lat: 51.5176, lng: -0.0963 },
+  N: { lat: 51.5784, lng: -0.1167 },
+  NW: { lat: 51.5495, lng: -0.1916 },
+  SE: { lat: 51.4655, lng: -0.0526 },
+  SW: { lat: 51.4697, lng: -0.1709 },
+  W: { lat: 51.5096, lng: -0.2199 },
+  WC: { lat: 51.5179, lng: -0.1201 },
+  B: { lat: 52.4862, lng: -1.8904 },
+  BN: { lat: 50.8225, lng: -0.1372 },
+  BS: { lat: 51.4545, lng: -2.5879 },
+  CB: { lat: 52.2053, lng: 0.1218 },
+  CF: { lat: 51.4816, lng: -3.1791 },
+  CV: { lat: 52.4068, lng: -1.5197 },
+  EH: { lat: 55.9533, lng: -3.1883 },
+  G: { lat: 55.8642, lng: -4.2518 },
+  L: { lat: 53.4084, lng: -2.9916 },
+  LE: { lat: 52.6369, lng: -1.1398 },
+  LS: { lat: 53.8008, lng: -1.5491 },
+  M: { lat: 53.4808, lng: -2.2426 },
+  NE: { lat: 54.9783, lng: -1.6178 },
+  NG: { lat: 52.9548, lng: -1.1581 },
+  OX: { lat: 51.752, lng: -1.2577 },
+  PL: { lat: 50.3755, lng: -4.1427 },
+  PO: { lat: 50.8198, lng: -1.088 },
+  RG: { lat: 51.4543, lng: -0.9781 },
+  S: { lat: 53.3811, lng: -1.4701 },
+  SO: { lat: 50.9097, lng: -1.4044 },
+  BT: { lat: 54.5973, lng: -5.9301 },
+};
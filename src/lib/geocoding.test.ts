@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { createGazetteerGeocoder, Geocoder, withGeocodeCache } from "./geocoding";
+
+describe("createGazetteerGeocoder", () => {
+  const geocoder = createGazetteerGeocoder();
+
+  it("finds a known place anywhere in free text, ignoring case", async () => {
+    await expect(geocoder.geocode("Tesco car park, camden high st")).resolves.toMatchObject({ label: "Camden" });
+  });
+
+  it("prefers the longest matching name", async () => {
+    await expect(geocoder.geocode("Bank junction, City of London")).resolves.toMatchObject({ label: "City of London" });
+  });
+
+  it("matches aliases under the place's own name", async () => {
+    await expect(geocoder.geocode("Quayside, Newcastle")).resolves.toEqual({
+      lat: 54.9783,
+      lng: -1.6178,
+      label: "Newcastle upon Tyne",
+    });
+  });
+
+  it("only matches whole words", async () => {
+    await expect(geocoder.geocode("Yorkshire Dales")).resolves.toBeNull();
+  });
+
+  it("falls back to the postcode area", async () => {
+    await expect(geocoder.geocode("Unit 4, Some Industrial Estate, ls11 5ab")).resolves.toEqual({
+      lat: 53.8008,
+      lng: -1.5491,
+      label: "Postcode area LS",
+    });
+  });
+
+  it("returns null when nothing matches", async () => {
+    await expect(geocoder.geocode("Somewhere unknown")).resolves.toBeNull();
+  });
+
+  it("uses the places it is given", async () => {
+    const custom = createGazetteerGeocoder([{ name: "Depot", lat: 1, lng: 2 }], {});
+    await expect(custom.geocode("north depot")).resolves.toEqual({ lat: 1, lng: 2, label: "Depot" });
+    await expect(custom.geocode("London")).resolves.toBeNull();
+  });
+});
+
+describe("withGeocodeCache", () => {
+  const fake = (geocode: Geocoder["geocode"]) => {
+    const inner = { name: "fake", geocode: vi.fn(geocode) };
+    return { inner, cached: withGeocodeCache(inner) };
+  };
+
+  it("resolves each query once, ignoring case and surrounding spaces, misses included", async () => {
+    const { inner, cached } = fake(async () => null);
+    await cached.geocode("Leeds");
+    await cached.geocode("  leeds ");
+    expect(inner.geocode).toHaveBeenCalledTimes(1);
+    expect(inner.geocode).toHaveBeenCalledWith("Leeds");
+  });
+
+  it("forgets failures so a later lookup retries", async () => {
+    const { inner, cached } = fake(async () => {
+      throw new Error("offline");
+    });
+    await expect(cached.geocode("Leeds")).rejects.toThrow("offline");
+    await expect(cached.geocode("Leeds")).rejects.toThrow("offline");
+    expect(inner.geocode).toHaveBeenCalledTimes(2);
+  });
+});
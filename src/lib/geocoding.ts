@@ -0,0 +1,102 @@
+import { config } from "@/lib/config";
+import { GazetteerEntry, UK_PLACES, UK_POSTCODE_AREAS } from "@/lib/gazetteer";
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+  // What the query was resolved to, e.g. "Camden" or "Postcode area NW"
+  label: string;
+}
+
+export interface Geocoder {
+  name: string;
+  geocode: (query: string) => Promise<GeoPoint | null>;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Offline geocoder that looks for known place names (and failing that a
+ * postcode area) in free text such as "Tesco car park, Camden High St".
+ * The longest matching name wins so "City of London" beats "London".
+ */
+export function createGazetteerGeocoder(
+  places: GazetteerEntry[] = UK_PLACES,
+  postcodeAreas: Record<string, { lat: number; lng: number }> = UK_POSTCODE_AREAS
+): Geocoder {
+  const names = places
+    .flatMap((place) => [place.name, ...(place.aliases ?? [])].map((name) => ({ name, place })))
+    .sort((a, b) => b.name.length - a.name.length)
+    .map(({ name, place }) => ({ pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`, "i"), place }));
+
+  return {
+    name: "gazetteer",
+    geocode: async (query) => {
+      const match = names.find(({ pattern }) => pattern.test(query));
+      if (match) {
+        return { lat: match.place.lat, lng: match.place.lng, label: match.place.name };
+      }
+
+      const postcode = query.toUpperCase().match(/\b([A-Z]{1,2})\d[A-Z\d]?\s*\d[A-Z]{2}\b/);
+      const area = postcode && postcodeAreas[postcode[1]];
+      return area ? { ...area, label: `Postcode area ${postcode[1]}` } : null;
+    },
+  };
+}
+
+// Nominatim's usage policy allows one request per second
+const NOMINATIM_INTERVAL_MS = 1000;
+
+/** Geocodes through OpenStreetMap Nominatim, restricted to the UK. */
+export function createNominatimGeocoder(baseUrl = "https://nominatim.openstreetmap.org"): Geocoder {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const lookup = async (query: string): Promise<GeoPoint | null> => {
+    const params = new URLSearchParams({ q: query, format: "json", limit: "1", countrycodes: "gb" });
+    const response = await fetch(`${baseUrl}/search?${params}`, { headers: { Accept: "application/json" } });
+    if (!response.ok) {
+      throw new Error(`Geocoding failed with status ${response.status}`);
+    }
+    const [result] = (await response.json()) as { lat: string; lon: string; display_name: string }[];
+    return result ? { lat: Number(result.lat), lng: Number(result.lon), label: result.display_name } : null;
+  };
+
+  return {
+    name: "nominatim",
+    geocode: (query) => {
+      const result = queue.then(() => lookup(query));
+      queue = result
+        .catch(() => undefined)
+        .then(() => new Promise((resolve) => setTimeout(resolve, NOMINATIM_INTERVAL_MS)));
+      return result;
+    },
+  };
+}
+
+/** Remembers results (including misses) so each query is only resolved once per session. */
+export function withGeocodeCache(geocoder: Geocoder): Geocoder {
+  const cache = new Map<string, Promise<GeoPoint | null>>();
+
+  return {
+    name: geocoder.name,
+    geocode: (query) => {
+      const key = query.trim().toLowerCase();
+      let result = cache.get(key);
+      if (!result) {
+        result = geocoder.geocode(query.trim());
+        // Don't keep failures around, so a later attempt can retry
+        result.catch(() => cache.delete(key));
+        cache.set(key, result);
+      }
+      return result;
+    },
+  };
+}
+
+export function createGeocoder(provider = config.maps.geocoder): Geocoder {
+  return withGeocodeCache(provider === "nominatim" ? createNominatimGeocoder() : createGazetteerGeocoder());
+}
+
+export const geocoder = createGeocoder();
@@ -0,0 +1,37 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+// pdf.js is large, so it is only loaded once someone imports a PDF
+async function loadPdfjs() {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.js?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  return pdfjs;
+}
+
+/**
+ * Extracts the text layer of a PDF, one paragraph per page. Scanned PDFs
+ * without a text layer come back empty.
+ */
+export async function extractPdfText(file: File): Promise<string> {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const { items } = await page.getTextContent();
+      const text = items
+        .filter((item): item is TextItem => "str" in item)
+        .map((item) => item.str + (item.hasEOL ? "\n" : ""))
+        .join("")
+        .trim();
+      if (text) pages.push(text);
+    }
+    return pages.join("\n\n");
+  } finally {
+    await pdf.destroy();
+  }
+}
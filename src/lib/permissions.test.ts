@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { AppRole, hasPermission } from "./permissions";
+
+const ROLES: AppRole[] = ["guard", "supervisor", "account_manager", "admin"];
+
+describe("hasPermission", () => {
+  it("lets every role start chats and browse the history of its own", () => {
+    for (const role of ROLES) {
+      expect(hasPermission([role], "chats:start")).toBe(true);
+      expect(hasPermission([role], "chats:history")).toBe(true);
+    }
+  });
+
+  it("keeps documents from account managers, who chat without linked citations", () => {
+    expect(hasPermission(["account_manager"], "documents:view")).toBe(false);
+    expect(hasPermission(["account_manager", "guard"], "documents:view")).toBe(true);
+  });
+
+  it("grants nothing without a role", () => {
+    expect(hasPermission([], "chats:start")).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export type Permission =
+  | "reports:view"
+  | "reports:generate"
+  | "documents:view"
+  | "documents:ingest"
+  | "sentiment:view"
+  | "sentiment:edit"
+  | "agents:view"
+  | "agents:manage"
+  | "broadcasts:send"
+  | "chats:start"
+  | "chats:history";
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  guard: "Guard",
+  supervisor: "Supervisor",
+  account_manager: "Account Manager",
+  admin: "Admin",
+};
+
+// Mirrors the row-level security policies in supabase/migrations; the
+// database is the source of truth, this only decides what the UI offers.
+const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  guard: ["reports:view", "reports:generate", "documents:view", "chats:start", "chats:history"],
+  supervisor: ["reports:view", "reports:generate", "documents:view", "chats:start", "chats:history"],
+  account_manager: [
+    "reports:view",
+    "reports:generate",
+    "sentiment:view",
+    "sentiment:edit",
+    "agents:view",
+    "chats:start",
+    "chats:history",
+  ],
+  admin: [
+    "reports:view",
+    "reports:generate",
+    "documents:view",
+    "documents:ingest",
+    "sentiment:view",
+    "sentiment:edit",
+    "agents:view",
+    "agents:manage",
+    "broadcasts:send",
+    "chats:start",
+    "chats:history",
+  ],
+};
+
+export function hasPermission(roles: AppRole[], permission: Permission): boolean {
+  return roles.some((role) => ROLE_PERMISSIONS[role]?.includes(permission));
+}
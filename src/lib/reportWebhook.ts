@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { config } from "@/lib/config";
+
+export const reportRequestSchema = z.object({
+  jobId: z.string().uuid(),
+  location: z.string().trim().min(1, "Location is required"),
+  dateFrom: z.string().date("Start date must be an ISO date"),
+  dateTo: z.string().date("End date must be an ISO date"),
+  // Preset shortcut the range came from, if any
+  dateOption: z.string().nullish(),
+  email: z.string().email("A valid email address is required"),
+  csvContent: z.string().nullish(),
+});
+
+export const reportResponseSchema = z.object({
+  location: z.string().min(1),
+  email: z.string().min(1),
+  urlOfSecurityReport: z.string().url(),
+});
+
+export type ReportRequest = z.infer<typeof reportRequestSchema>;
+export type ReportResponse = z.infer<typeof reportResponseSchema>;
+
+/**
+ * Raised when the workflow refuses a request or answers with something that
+ * does not match the response contract. `status` is the HTTP status, if any.
+ */
+export class ReportRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "ReportRequestError";
+  }
+}
+
+function buildRequestBody(request: ReportRequest): FormData {
+  const body = new FormData();
+  body.append("jobId", request.jobId);
+  body.append("location", request.location);
+  body.append("dateFrom", request.dateFrom);
+  body.append("dateTo", request.dateTo);
+  if (request.dateOption) {
+    body.append("dateOption", request.dateOption);
+  }
+  body.append("email", request.email);
+  if (request.csvContent) {
+    body.append("csv", new Blob([request.csvContent], { type: "text/csv" }), "sites.csv");
+  }
+  return body;
+}
+
+async function describeRejection(response: Response): Promise<string> {
+  let detail = "";
+  try {
+    const text = await response.text();
+    try {
+      const json = JSON.parse(text);
+      detail = json?.message || json?.error || text;
+    } catch {
+      detail = text;
+    }
+  } catch {
+    // Body unreadable, fall back to the status alone
+  }
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return `Report request rejected: ${detail || "the workflow could not read the submitted fields"}`;
+    case 413:
+      return "Report request rejected: the CSV file is too large for the report workflow";
+    case 415:
+      return "Report request rejected: the workflow does not accept this upload format";
+    default:
+      return `Server responded with status: ${response.status}${detail ? ` (${detail})` : ""}`;
+  }
+}
+
+/**
+ * Calls the report generation workflow. Resolves with the finished report, or
+ * null when the workflow accepted the job (HTTP 202) and will write the result
+ * back to `security_reports` itself using the job id.
+ */
+export async function requestSecurityReport(
+  request: ReportRequest,
+  signal?: AbortSignal
+): Promise<ReportResponse | null> {
+  const parsedRequest = reportRequestSchema
+    .refine((value) => value.dateFrom <= value.dateTo, "Start date must not be after end date")
+    .safeParse(request);
+  if (!parsedRequest.success) {
+    throw new ReportRequestError(
+      `Invalid report request: ${parsedRequest.error.issues.map((issue) => issue.message).join(", ")}`
+    );
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.reportWebhook.timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel);
+
+  try {
+    const response = await fetch(config.reportWebhook.url, {
+      method: "POST",
+      body: buildRequestBody(parsedRequest.data),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new ReportRequestError(await describeRejection(response), response.status);
+    }
+
+    if (response.status === 202) {
+      return null;
+    }
+
+    const responseData = await response.json().catch(() => {
+      throw new ReportRequestError("Webhook returned a response that is not JSON", response.status);
+    });
+
+    const parsedResponse = reportResponseSchema.safeParse(responseData);
+    if (!parsedResponse.success) {
+      throw new ReportRequestError(
+        `Incomplete data received from webhook: ${parsedResponse.error.issues
+          .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+          .join(", ")}`,
+        response.status
+      );
+    }
+
+    return parsedResponse.data;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw new ReportRequestError(
+        signal?.aborted ? "Cancelled" : "Timed out waiting for the report workflow"
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
@@ -1,5 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { config } from './lib/config'
+
+document.title = config.branding.appName
 
 createRoot(document.getElementById("root")!).render(<App />);
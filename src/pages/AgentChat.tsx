@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { ArrowLeft, History, MessageSquarePlus } from "lucide-react";
+import { AppLayout } from "@/components/AppLayout";
+import { ChatConversation } from "@/components/ChatConversation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAgents } from "@/hooks/use-agents";
+import { useAgentChats, useStartAgentChat } from "@/hooks/use-agent-chat";
+import { useRole } from "@/hooks/use-role";
+import { cn } from "@/lib/utils";
+import { isAgentRetired } from "@/utils/agentUtils";
+import { chatHistoryPath, chatTitle } from "@/utils/chatUtils";
+
+const AgentChat = () => {
+  const { toast } = useToast();
+  const { can } = useRole();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: agents = [] } = useAgents();
+  const { data: chats = [], isLoading } = useAgentChats();
+  const startChat = useStartAgentChat();
+
+  const activeAgents = agents.filter((agent) => !isAgentRetired(agent));
+  // ?agent= preselects an agent, e.g. when arriving from the directory
+  const [assistantId, setAssistantId] = useState(() => searchParams.get("agent") ?? "");
+  const selectedAgent = activeAgents.find((agent) => agent.assistant_id === assistantId);
+  const chatId = Number(searchParams.get("chat"));
+  const chat = chats.find((candidate) => candidate.id === chatId) ?? null;
+
+  const openChat = (id: number) => setSearchParams({ chat: String(id) });
+
+  const handleStart = async () => {
+    if (!selectedAgent) return;
+    try {
+      const created = await startChat.mutateAsync(selectedAgent);
+      openChat(created.id);
+    } catch (error) {
+      console.error("Error starting chat:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start conversation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          {/* Only account managers and admins have the agent directory to go back to */}
+          <Link
+            to={can("agents:view") ? "/?tab=agents" : "/"}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            {can("agents:view") ? "All agents" : "Back"}
+          </Link>
+          <Link
+            to={chatHistoryPath(chat?.id)}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <History className="h-4 w-4" />
+            History and export
+          </Link>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>Conversations</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Select value={assistantId} onValueChange={setAssistantId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose an agent" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAgents.map((agent) => (
+                      <SelectItem key={agent.id} value={agent.assistant_id}>
+                        {agent.assistant_name || agent.assistant_id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="icon"
+                  title="Start a new conversation"
+                  disabled={!selectedAgent || startChat.isPending}
+                  onClick={handleStart}
+                >
+                  <MessageSquarePlus className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : chats.length === 0 ? (
+                <div className="text-center py-4 text-sm text-muted-foreground">No conversations yet</div>
+              ) : (
+                <ul className="space-y-1 max-h-[55vh] overflow-y-auto">
+                  {chats.map((candidate) => (
+                    <li key={candidate.id}>
+                      <button
+                        type="button"
+                        onClick={() => openChat(candidate.id)}
+                        className={cn(
+                          "w-full rounded-md px-3 py-2 text-left hover:bg-muted",
+                          candidate.id === chat?.id && "bg-muted"
+                        )}
+                      >
+                        <div className="text-sm font-medium line-clamp-1">{chatTitle(candidate)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {candidate.assistant_name} ·{" "}
+                          {formatDistanceToNow(parseISO(candidate.updated_at), { addSuffix: true })}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          {chat ? (
+            <ChatConversation key={chat.id} chat={chat} />
+          ) : (
+            <Card className="flex items-center justify-center h-[70vh] text-muted-foreground text-sm">
+              Choose an agent to start a conversation, or pick up an earlier one
+            </Card>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AgentChat;
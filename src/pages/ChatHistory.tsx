@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Filter, Search } from "lucide-react";
+import { AppLayout } from "@/components/AppLayout";
+import { ChatTranscript } from "@/components/ChatTranscript";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChatHistoryFilters,
+  EMPTY_CHAT_HISTORY_FILTERS,
+  useChatHistory,
+  useChatHistoryAgents,
+  useChatHistoryChat,
+} from "@/hooks/use-chat-history";
+import { useDebouncedValue } from "@/hooks/use-debounce";
+import { cn } from "@/lib/utils";
+import { chatTitle, messageSnippet } from "@/utils/chatUtils";
+
+// Select items cannot have an empty value
+const ALL_AGENTS = "all";
+
+const ChatHistory = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useState<ChatHistoryFilters>(EMPTY_CHAT_HISTORY_FILTERS);
+  const debouncedFilters = useDebouncedValue(filters);
+  const { data, isLoading, error } = useChatHistory(debouncedFilters);
+  const { data: agents = [] } = useChatHistoryAgents();
+
+  const chats = data?.chats ?? [];
+  const matches = data?.matches;
+  const chatId = Number(searchParams.get("chat")) || null;
+  const listed = chats.find((chat) => chat.id === chatId);
+  // A linked conversation may be filtered out of, or beyond, the list
+  const { data: linked, isLoading: linkedLoading } = useChatHistoryChat(isLoading || listed ? null : chatId);
+  const selected = listed ?? linked ?? null;
+  const update = (changes: Partial<ChatHistoryFilters>) => setFilters({ ...filters, ...changes });
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Conversation history</h1>
+          <p className="text-muted-foreground text-sm mt-1">Past conversations with AdConversion agents</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2 p-4 bg-muted/50 rounded-lg">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Filter className="h-4 w-4" />
+            Filters:
+          </div>
+          <div className="relative w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search messages..."
+              value={filters.search}
+              onChange={(e) => update({ search: e.target.value })}
+              className="pl-9"
+            />
+          </div>
+          <Select
+            value={filters.assistantId || ALL_AGENTS}
+            onValueChange={(value) => update({ assistantId: value === ALL_AGENTS ? "" : value })}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_AGENTS}>All agents</SelectItem>
+              {agents.map((agent) => (
+                <SelectItem key={agent.assistantId} value={agent.assistantId}>
+                  {agent.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <span className="text-sm">Started:</span>
+            <Input
+              type="date"
+              value={filters.dateFrom}
+              onChange={(e) => update({ dateFrom: e.target.value })}
+              className="w-40"
+            />
+            <span className="text-sm">to</span>
+            <Input
+              type="date"
+              value={filters.dateTo}
+              onChange={(e) => update({ dateTo: e.target.value })}
+              className="w-40"
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setFilters(EMPTY_CHAT_HISTORY_FILTERS)}>
+            Clear All
+          </Button>
+        </div>
+
+        <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>Conversations</CardTitle>
+              <CardDescription>
+                {isLoading ? "Loading conversations..." : `${chats.length} conversations`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : error ? (
+                <div className="text-destructive">
+                  {error instanceof Error ? error.message : "An error occurred"}
+                </div>
+              ) : chats.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No conversations match your filters</div>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Conversation</TableHead>
+                        <TableHead className="w-40">Agent</TableHead>
+                        <TableHead className="w-32">Started</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {chats.map((chat) => {
+                        const match = matches?.get(chat.id);
+                        return (
+                          <TableRow
+                            key={chat.id}
+                            className={cn("cursor-pointer", chat.id === selected?.id && "bg-muted")}
+                            onClick={() => setSearchParams({ chat: String(chat.id) })}
+                          >
+                            <TableCell>
+                              <div className="font-medium line-clamp-1">{chatTitle(chat)}</div>
+                              {match && (
+                                <div className="text-xs text-muted-foreground line-clamp-2">
+                                  {match.count} match{match.count === 1 ? "" : "es"}:{" "}
+                                  {messageSnippet(match.firstMatch, debouncedFilters.search)}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm">{chat.assistant_name || chat.assistant_id}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {format(parseISO(chat.created_at), "PP")}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {selected ? (
+            <ChatTranscript key={selected.id} chat={selected} />
+          ) : (
+            <Card className="flex items-center justify-center min-h-[200px] text-muted-foreground text-sm">
+              {chatId !== null && !isLoading && !linkedLoading
+                ? "This conversation was not found, or you cannot view it"
+                : "Select a conversation to read its transcript"}
+            </Card>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default ChatHistory;
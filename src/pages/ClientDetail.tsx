@@ -0,0 +1,195 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ArrowLeft, Pencil, Plus } from "lucide-react";
+import { AppLayout } from "@/components/AppLayout";
+import { SentimentEntryDialog } from "@/components/SentimentEntryDialog";
+import { SentimentScoreBadge } from "@/components/SentimentScoreBadge";
+import { Button } from "@/components/ui/button";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useCompanySentiment } from "@/hooks/use-client-sentiment";
+import { useRole } from "@/hooks/use-role";
+import { useTeamThresholds } from "@/hooks/use-sentiment-thresholds";
+import {
+  clientPath,
+  ClientSentiment,
+  entryDate,
+  SENTIMENT_SCORE_MAX,
+  SENTIMENT_TEXT_FIELDS,
+} from "@/utils/sentimentUtils";
+import { fromIsoDate } from "@/utils/dateUtils";
+
+const trendChartConfig = {
+  score: { label: "Sentiment score", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const SentimentFields = ({ entry }: { entry: ClientSentiment }) => (
+  <dl className="grid gap-4 md:grid-cols-2">
+    {SENTIMENT_TEXT_FIELDS.map(({ key, label }) => (
+      <div key={key} className="space-y-1">
+        <dt className="text-xs font-medium text-muted-foreground">{label}</dt>
+        <dd className="text-sm whitespace-pre-wrap">{entry[key] || "-"}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
+const ClientDetail = () => {
+  const { companyName = "" } = useParams();
+  const { data: entries = [], isLoading, error } = useCompanySentiment(companyName);
+  const latest = entries[entries.length - 1];
+  const { thresholds } = useTeamThresholds();
+  const navigate = useNavigate();
+  const { can } = useRole();
+  const canEdit = can("sentiment:edit");
+  // Follow the client if an edit renames it
+  const handleSaved = (saved: ClientSentiment) => {
+    if (saved.companyName && saved.companyName !== companyName) navigate(clientPath(saved.companyName));
+  };
+  // Newest first for the timeline
+  const timeline = [...entries].reverse();
+  const trend = entries.map((entry) => ({
+    date: format(entryDate(entry), "yyyy-MM-dd"),
+    score: entry.sentimentScore,
+  }));
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div>
+          <Link
+            to="/?tab=sentiment"
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            All clients
+          </Link>
+          <div className="flex items-center gap-3 mt-2">
+            <h1 className="text-2xl font-bold">{companyName}</h1>
+            {latest && <SentimentScoreBadge score={latest.sentimentScore} className="text-sm" />}
+            {canEdit && (
+              <SentimentEntryDialog
+                companyName={companyName}
+                onSaved={handleSaved}
+                trigger={
+                  <Button size="sm" className="ml-auto flex items-center gap-2">
+                    <Plus className="h-4 w-4" />
+                    New review
+                  </Button>
+                }
+              />
+            )}
+          </div>
+          {latest?.oneSentenceExplanation && (
+            <p className="text-muted-foreground mt-1 text-sm">{latest.oneSentenceExplanation}</p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="text-destructive">
+            Error loading client: {error instanceof Error ? error.message : "An error occurred"}
+          </div>
+        ) : !latest ? (
+          <div className="text-center py-8 text-muted-foreground">No sentiment reviews for this client</div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Latest review</CardTitle>
+                <CardDescription>{format(entryDate(latest), "PPP")}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SentimentFields entry={latest} />
+              </CardContent>
+            </Card>
+
+            {entries.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Score trend</CardTitle>
+                  <CardDescription>
+                    The dashed line marks the at-risk threshold of {thresholds.lowScore}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={trendChartConfig} className="h-[260px] w-full aspect-auto">
+                    <LineChart data={trend}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="date"
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={(date) => format(fromIsoDate(date), "d MMM yy")}
+                        minTickGap={16}
+                      />
+                      <YAxis domain={[0, SENTIMENT_SCORE_MAX]} tickLine={false} axisLine={false} width={28} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ReferenceLine y={thresholds.lowScore} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                      <Line
+                        dataKey="score"
+                        stroke="var(--color-score)"
+                        strokeWidth={2}
+                        dot={{ r: 3 }}
+                        connectNulls
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>History</CardTitle>
+                <CardDescription>
+                  {entries.length} review{entries.length === 1 ? "" : "s"} since {format(entryDate(entries[0]), "PPP")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Accordion type="multiple" className="border-l border-border pl-6">
+                  {timeline.map((entry) => (
+                    <AccordionItem key={entry.id} value={String(entry.id)} className="relative">
+                      <span className="absolute -left-[29px] top-5 h-2.5 w-2.5 rounded-full bg-primary" />
+                      <AccordionTrigger className="hover:no-underline">
+                        <div className="flex flex-1 flex-wrap items-center gap-3 text-left pr-4">
+                          <span className="text-sm font-medium w-32">{format(entryDate(entry), "PP")}</span>
+                          <SentimentScoreBadge score={entry.sentimentScore} />
+                          <span className="text-sm text-muted-foreground font-normal line-clamp-1 flex-1">
+                            {entry.whatChangedFromLast || entry.oneSentenceExplanation || ""}
+                          </span>
+                        </div>
+                      </AccordionTrigger>
+                      <AccordionContent className="space-y-4">
+                        <SentimentFields entry={entry} />
+                        {canEdit && (
+                          <SentimentEntryDialog
+                            entry={entry}
+                            onSaved={handleSaved}
+                            trigger={
+                              <Button variant="outline" size="sm" className="flex items-center gap-2">
+                                <Pencil className="h-4 w-4" />
+                                Edit review
+                              </Button>
+                            }
+                          />
+                        )}
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default ClientDetail;
@@ -1,87 +1,145 @@
 
-import { useState } from "react";
-import { ReportForm, GeneratedReport } from "@/components/ReportForm";
+import { useSearchParams } from "react-router-dom";
+import { AppLayout } from "@/components/AppLayout";
+import { AgentDirectory } from "@/components/AgentDirectory";
+import { ReportForm } from "@/components/ReportForm";
 import { ReportList } from "@/components/ReportList";
+import { ClientSentimentList } from "@/components/ClientSentimentList";
+import { SentimentOverview } from "@/components/SentimentOverview";
 import { DocumentsViewer } from "@/components/DocumentsViewer";
+import { IncidentAnalytics } from "@/components/IncidentAnalytics";
+import { IncidentMap } from "@/components/IncidentMap";
+import { SemanticSearch } from "@/components/SemanticSearch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useRole } from "@/hooks/use-role";
+import { cn } from "@/lib/utils";
 
-const Index = () => {
-  const [reports, setReports] = useState<GeneratedReport[]>([]);
+interface IndexTab {
+  value: string;
+  label: string;
+  visible: boolean;
+  content: React.ReactNode;
+}
 
-  const handleReportGenerated = (newReport: GeneratedReport) => {
-    setReports((prevReports) => [newReport, ...prevReports]);
-  };
+const Index = () => {
+  const { can, isLoading: rolesLoading } = useRole();
+  const canGenerate = can("reports:generate");
+  const [searchParams, setSearchParams] = useSearchParams();
 
-  return (
-    <div className="min-h-screen bg-background text-foreground">
-      {/* Header with logo and title */}
-      <header className="border-b border-border/40 p-4">
-        <div className="container mx-auto flex items-center">
-          <img 
-            src="https://guk.co.uk/wp-content/uploads/2024/03/GUK-grouplogo.png" 
-            alt="GUK Group Logo" 
-            className="h-12 mr-4"
-          />
-          <div className="text-xl font-bold text-primary">
-            Guarding UK Security Services
-          </div>
-          <div className="ml-auto text-sm font-medium">Security Report System</div>
-        </div>
-      </header>
-      
-      {/* Main content */}
-      <main className="container mx-auto py-8 px-4">
-        <Tabs defaultValue="reports" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="reports">Security Reports</TabsTrigger>
-            <TabsTrigger value="documents">Documents Database</TabsTrigger>
-          </TabsList>
-          
-          <TabsContent value="reports" className="mt-6">
-            <div className="grid gap-8 md:grid-cols-[350px_1fr] lg:grid-cols-[400px_1fr]">
-              {/* Form column */}
-              <div className="space-y-6">
-                <div>
-                  <h1 className="text-2xl font-bold">Generate Security Report</h1>
-                  <p className="text-muted-foreground mt-1 text-sm">
-                    Fill in the details to create a security assessment report
-                  </p>
-                </div>
-                
-                <div className="bg-card rounded-lg border border-border/40 p-6">
-                  <ReportForm onReportGenerated={handleReportGenerated} />
-                </div>
+  const tabs: IndexTab[] = [
+    {
+      value: "reports",
+      label: "Security Reports",
+      visible: can("reports:view"),
+      content: (
+        <div className={cn("grid gap-8", canGenerate && "md:grid-cols-[350px_1fr] lg:grid-cols-[400px_1fr]")}>
+          {/* Form column */}
+          {canGenerate && (
+            <div className="space-y-6">
+              <div>
+                <h1 className="text-2xl font-bold">Generate Security Report</h1>
+                <p className="text-muted-foreground mt-1 text-sm">
+                  Fill in the details to create a security assessment report
+                </p>
               </div>
               
-              {/* Reports column */}
-              <div className="space-y-6">
-                <div>
-                  <h1 className="text-2xl font-bold">Report Dashboard</h1>
-                  <p className="text-muted-foreground mt-1 text-sm">
-                    View all generated security reports
-                  </p>
-                </div>
-                
-                <div className="bg-card rounded-lg border border-border/40 p-6 min-h-[400px]">
-                  <ReportList reports={reports} />
-                </div>
+              <div className="bg-card rounded-lg border border-border/40 p-6">
+                <ReportForm />
               </div>
             </div>
-          </TabsContent>
+          )}
           
-          <TabsContent value="documents" className="mt-6">
-            <DocumentsViewer />
-          </TabsContent>
-        </Tabs>
-      </main>
-      
-      {/* Footer */}
-      <footer className="border-t border-border/40 mt-auto py-4">
-        <div className="container mx-auto text-center text-xs text-muted-foreground">
-          Guarding UK - Sentinel Report System &copy; {new Date().getFullYear()}
+          {/* Reports column */}
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-2xl font-bold">Report Dashboard</h1>
+              <p className="text-muted-foreground mt-1 text-sm">
+                View security reports generated by your whole team
+              </p>
+            </div>
+            
+            <div className="bg-card rounded-lg border border-border/40 p-6 min-h-[400px]">
+              <ReportList />
+            </div>
+          </div>
         </div>
-      </footer>
-    </div>
+      ),
+    },
+    {
+      value: "documents",
+      label: "Documents Database",
+      visible: can("documents:view"),
+      content: (
+        <div className="space-y-6">
+          <SemanticSearch />
+          <DocumentsViewer />
+        </div>
+      ),
+    },
+    {
+      value: "map",
+      label: "Incident Map",
+      visible: can("documents:view"),
+      content: <IncidentMap />,
+    },
+    {
+      value: "analytics",
+      label: "Analytics",
+      visible: can("documents:view"),
+      content: <IncidentAnalytics />,
+    },
+    {
+      value: "sentiment",
+      label: "Client Sentiment",
+      visible: can("sentiment:view"),
+      content: (
+        <div className="space-y-6">
+          <SentimentOverview />
+          <ClientSentimentList />
+        </div>
+      ),
+    },
+    {
+      value: "agents",
+      label: "Agents",
+      visible: can("agents:view"),
+      content: <AgentDirectory />,
+    },
+  ].filter((tab) => tab.visible);
+
+  // The selected tab is kept in the URL so links into a tab (e.g. a shared document) open it.
+  // Switching tabs drops the previous tab's own query parameters.
+  const activeTab = tabs.find((tab) => tab.value === searchParams.get("tab"))?.value ?? tabs[0]?.value;
+
+  return (
+    <AppLayout>
+      {rolesLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : tabs.length === 0 ? (
+        <div className="text-center py-16 text-muted-foreground">
+          Your account has not been assigned a role yet. Please contact an administrator.
+        </div>
+      ) : (
+        <Tabs value={activeTab} onValueChange={(value) => setSearchParams({ tab: value })} className="w-full">
+          <TabsList
+            className="grid w-full"
+            style={{ gridTemplateColumns: `repeat(${tabs.length}, minmax(0, 1fr))` }}
+          >
+            {tabs.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+            ))}
+          </TabsList>
+
+          {tabs.map((tab) => (
+            <TabsContent key={tab.value} value={tab.value} className="mt-6">
+              {tab.content}
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+    </AppLayout>
   );
 };
 
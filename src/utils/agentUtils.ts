@@ -0,0 +1,79 @@
+import { z } from "zod";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Agent = Tables<"adconversion_agents">;
+
+// Heading for agents without an industry_classification
+export const UNCLASSIFIED_INDUSTRY = "Unclassified";
+
+const optionalText = z
+  .string()
+  .trim()
+  .transform((value) => value || null)
+  .nullable();
+
+export const agentSchema = z.object({
+  assistant_id: z
+    .string()
+    .trim()
+    .min(1, "Assistant ID is required")
+    .regex(/^\S+$/, "Assistant ID cannot contain spaces"),
+  assistant_name: z.string().trim().min(1, "Name is required"),
+  industry_classification: optionalText,
+  assistant_description: optionalText,
+});
+
+// Form state, and the row fields it saves once parsed
+export type AgentValues = z.input<typeof agentSchema>;
+export type AgentFields = z.output<typeof agentSchema>;
+
+export function toAgentValues(agent: Agent | null): AgentValues {
+  return {
+    assistant_id: agent?.assistant_id ?? "",
+    assistant_name: agent?.assistant_name ?? "",
+    industry_classification: agent?.industry_classification ?? "",
+    assistant_description: agent?.assistant_description ?? "",
+  };
+}
+
+export function agentIndustry(agent: Agent): string {
+  return agent.industry_classification?.trim() || UNCLASSIFIED_INDUSTRY;
+}
+
+export function isAgentRetired(agent: Agent): boolean {
+  return agent.retired_at !== null;
+}
+
+/** Whether another agent already uses `assistantId`, ignoring the one being edited. */
+export function isAssistantIdTaken(agents: Agent[], assistantId: string, excludeId?: number): boolean {
+  const id = assistantId.trim();
+  return agents.some((agent) => agent.id !== excludeId && agent.assistant_id === id);
+}
+
+export function matchesAgentSearch(agent: Agent, search: string): boolean {
+  const query = search.trim().toLowerCase();
+  if (!query) return true;
+  return [agent.assistant_name, agent.assistant_id, agent.assistant_description, agent.industry_classification].some(
+    (value) => value?.toLowerCase().includes(query)
+  );
+}
+
+/** Agents grouped by industry, alphabetically, with unclassified agents last. */
+export function groupAgentsByIndustry(agents: Agent[]): { industry: string; agents: Agent[] }[] {
+  const byIndustry = new Map<string, Agent[]>();
+  for (const agent of agents) {
+    const industry = agentIndustry(agent);
+    byIndustry.set(industry, [...(byIndustry.get(industry) ?? []), agent]);
+  }
+
+  return [...byIndustry.entries()]
+    .map(([industry, industryAgents]) => ({
+      industry,
+      agents: industryAgents.sort((a, b) => (a.assistant_name ?? "").localeCompare(b.assistant_name ?? "")),
+    }))
+    .sort(
+      (a, b) =>
+        Number(a.industry === UNCLASSIFIED_INDUSTRY) - Number(b.industry === UNCLASSIFIED_INDUSTRY) ||
+        a.industry.localeCompare(b.industry)
+    );
+}
@@ -0,0 +1,123 @@
+import { differenceInCalendarDays, format, isValid, startOfMonth, startOfWeek } from "date-fns";
+import type { Incident } from "@/utils/incidentUtils";
+import { fromIsoDate } from "@/utils/dateUtils";
+
+export type TimeBucket = "day" | "week" | "month";
+
+export interface TimeSeriesPoint {
+  // yyyy-MM-dd of the start of the bucket
+  period: string;
+  count: number;
+}
+
+export interface CategoryCount {
+  name: string;
+  count: number;
+}
+
+export interface HeatmapCell {
+  // 0 = Monday
+  weekday: number;
+  hour: number;
+  count: number;
+}
+
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Parsed dates can be malformed (e.g. "2025-13-40" scraped from free text)
+function incidentDate(incident: Incident): Date | null {
+  if (!incident.date) return null;
+  const date = fromIsoDate(incident.date);
+  return isValid(date) ? date : null;
+}
+
+/** Picks a bucket size that keeps the time series to a readable number of bars. */
+export function chooseTimeBucket(incidents: Incident[]): TimeBucket {
+  const times = incidents.map(incidentDate).filter(Boolean).map((date) => date.getTime());
+  if (times.length === 0) return "day";
+  const days = differenceInCalendarDays(Math.max(...times), Math.min(...times));
+  if (days <= 62) return "day";
+  if (days <= 366) return "week";
+  return "month";
+}
+
+function bucketStart(date: Date, bucket: TimeBucket): Date {
+  if (bucket === "week") return startOfWeek(date, { weekStartsOn: 1 });
+  if (bucket === "month") return startOfMonth(date);
+  return date;
+}
+
+/** Counts incidents per day, week or month, oldest first. Undated incidents are skipped. */
+export function countOverTime(incidents: Incident[], bucket: TimeBucket): TimeSeriesPoint[] {
+  const counts = new Map<string, number>();
+  for (const incident of incidents) {
+    const date = incidentDate(incident);
+    if (!date) continue;
+    const period = format(bucketStart(date, bucket), "yyyy-MM-dd");
+    counts.set(period, (counts.get(period) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, count]) => ({ period, count }));
+}
+
+/**
+ * Counts incidents by a text field, most common first. Values are grouped
+ * case-insensitively and anything beyond the top `limit` is folded into "Other".
+ */
+export function countByField(
+  incidents: Incident[],
+  field: "incidentType" | "location",
+  limit = 10
+): CategoryCount[] {
+  const counts = new Map<string, CategoryCount>();
+  for (const incident of incidents) {
+    const value = incident[field]?.trim() || "Unknown";
+    const key = value.toLowerCase();
+    const entry = counts.get(key) ?? { name: value, count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+
+  const sorted = [...counts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  if (sorted.length <= limit) return sorted;
+
+  const other = sorted.slice(limit).reduce((sum, entry) => sum + entry.count, 0);
+  return [...sorted.slice(0, limit), { name: "Other", count: other }];
+}
+
+/**
+ * Reads the hour from the free-text times our sources use, e.g. "14:30",
+ * "2.15pm", "9 am", "1430hrs". Returns null when there is no recognisable time.
+ */
+export function parseHour(time: string | null): number | null {
+  if (!time) return null;
+  const match = time.trim().toLowerCase().match(/(\d{1,2})(?:[:.]?(\d{2}))?\s*(am|pm|hrs|h)?/);
+  if (!match) return null;
+
+  let hour = parseInt(match[1]);
+  const meridiem = match[3];
+  if (meridiem === "pm" && hour < 12) hour += 12;
+  if (meridiem === "am" && hour === 12) hour = 0;
+  return hour >= 0 && hour < 24 ? hour : null;
+}
+
+/** Counts incidents by weekday and hour; incidents without both are skipped. */
+export function timeOfDayHeatmap(incidents: Incident[]): HeatmapCell[] {
+  const cells: HeatmapCell[] = [];
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let hour = 0; hour < 24; hour++) {
+      cells.push({ weekday, hour, count: 0 });
+    }
+  }
+
+  for (const incident of incidents) {
+    const hour = parseHour(incident.time);
+    const date = incidentDate(incident);
+    if (hour === null || !date) continue;
+    const weekday = (date.getDay() + 6) % 7;
+    cells[weekday * 24 + hour].count += 1;
+  }
+
+  return cells;
+}
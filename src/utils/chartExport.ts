@@ -0,0 +1,85 @@
+import { toCsv } from "@/utils/csvUtils";
+
+// Computed styles copied onto the exported SVG, since theme colours come from
+// CSS variables and stylesheets that don't travel with a standalone image
+const INLINED_STYLES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-opacity",
+  "stroke-width",
+  "stroke-dasharray",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+];
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+export function downloadCsv(rows: (string | number)[][], filename: string) {
+  const content = toCsv(rows.map((row) => row.map(String)));
+  downloadBlob(new Blob([content], { type: "text/csv" }), filename);
+}
+
+/**
+ * Renders an SVG element (e.g. a recharts surface) to a PNG and downloads it.
+ * The image is drawn at twice the on-screen size on the given background.
+ */
+export async function downloadSvgAsPng(svg: SVGSVGElement, filename: string, background = "#ffffff") {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+
+  const sourceElements = [svg, ...Array.from(svg.querySelectorAll("*"))];
+  const cloneElements = [clone, ...Array.from(clone.querySelectorAll("*"))];
+  sourceElements.forEach((source, index) => {
+    const computed = window.getComputedStyle(source);
+    const target = cloneElements[index] as SVGElement;
+    for (const property of INLINED_STYLES) {
+      target.style.setProperty(property, computed.getPropertyValue(property));
+    }
+  });
+
+  const svgUrl = window.URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(clone)], { type: "image/svg+xml;charset=utf-8" })
+  );
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Could not render chart image"));
+      image.src = svgUrl;
+    });
+
+    const scale = 2;
+    const canvas = document.createElement("canvas");
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is not supported in this browser");
+
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+    if (!blob) throw new Error("Could not create PNG");
+    downloadBlob(blob, filename);
+  } finally {
+    window.URL.revokeObjectURL(svgUrl);
+  }
+}
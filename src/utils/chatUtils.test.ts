@@ -0,0 +1,151 @@
+import { format, parseISO } from "date-fns";
+import { describe, expect, it } from "vitest";
+import {
+  AgentChat,
+  ChatMessage,
+  chatHistoryPath,
+  chatPath,
+  chatTitle,
+  isAwaitingReply,
+  mergeMessage,
+  messageSnippet,
+  replyCitations,
+  speakerLabel,
+  splitCitations,
+  transcriptFilename,
+  transcriptToMarkdown,
+} from "./chatUtils";
+
+const chat: AgentChat = {
+  id: 42,
+  created_at: "2025-03-04T09:30:00Z",
+  assistant_id: "asst-1",
+  assistant_name: "Site Safety",
+  assistant_description: null,
+  industry_classification: null,
+  conversation_id: null,
+  thread_id: "thread-1",
+  user_id: "user-1",
+  title: null,
+  updated_at: "2025-03-04T10:00:00Z",
+};
+
+let nextId = 1;
+
+const message = (fields: Partial<ChatMessage>): ChatMessage => ({
+  id: nextId++,
+  conversation_id: chat.id,
+  message_id: crypto.randomUUID(),
+  content: "",
+  role: "user",
+  is_broadcast: false,
+  created_at: "2025-03-04T09:31:00Z",
+  created_by: null,
+  context_documents: null,
+  ...fields,
+});
+
+const citations = [
+  { documentId: 10, label: "Theft at Leeds depot" },
+  { documentId: 11, label: "Broken gate, York" },
+];
+
+describe("chatTitle", () => {
+  it("uses the title, falling back to the agent's name", () => {
+    expect(chatTitle({ ...chat, title: "Night shift thefts" })).toBe("Night shift thefts");
+    expect(chatTitle(chat)).toBe("Chat with Site Safety");
+    expect(chatTitle({ ...chat, assistant_name: null })).toBe("Chat with agent");
+  });
+});
+
+describe("chatPath and chatHistoryPath", () => {
+  it("link to a conversation or an agent", () => {
+    expect(chatPath()).toBe("/chat");
+    expect(chatPath({ chatId: 42, assistantId: "asst 1" })).toBe("/chat?chat=42&agent=asst+1");
+    expect(chatHistoryPath()).toBe("/chat/history");
+    expect(chatHistoryPath(42)).toBe("/chat/history?chat=42");
+  });
+});
+
+describe("mergeMessage and isAwaitingReply", () => {
+  it("replaces a streamed reply in place and waits only on a user message", () => {
+    const question = message({ content: "Any thefts?" });
+    const partial = message({ role: "assistant", content: "Two", message_id: "reply" });
+    const messages = mergeMessage([question], partial);
+    expect(isAwaitingReply([question])).toBe(true);
+    expect(isAwaitingReply(messages)).toBe(false);
+
+    const full = { ...partial, content: "Two, both in Leeds." };
+    expect(mergeMessage(messages, full)).toEqual([question, full]);
+  });
+});
+
+describe("messageSnippet", () => {
+  it("centres on the first search term found, collapsing whitespace", () => {
+    const content = `${"a".repeat(100)} the   gate was\nopen ${"b".repeat(100)}`;
+    expect(messageSnippet(content, "Gate", 10)).toBe("...aaaaa the gate was o...");
+    expect(messageSnippet("Short message", "missing")).toBe("Short message");
+  });
+});
+
+describe("replyCitations and splitCitations", () => {
+  it("reads a reply's citations from the question it answers and splits out known markers", () => {
+    const messages = [
+      message({ context_documents: citations as unknown as ChatMessage["context_documents"] }),
+      message({ role: "assistant", content: "See [1] and [3], also [2]." }),
+    ];
+    expect(replyCitations(messages, 1)).toEqual(citations);
+    expect(replyCitations(messages, 0)).toEqual([]);
+
+    expect(splitCitations(messages[1].content, citations)).toEqual([
+      { text: "See " },
+      { number: 1, citation: citations[0] },
+      { text: " and [3], also " },
+      { number: 2, citation: citations[1] },
+      { text: "." },
+    ]);
+  });
+});
+
+describe("transcript export", () => {
+  it("writes messages in order under the agent's name, with the sources replies cite", () => {
+    const reply = message({ role: "assistant", content: "Yes, see [1].", created_at: "2025-03-04T09:32:00Z" });
+    const question = message({
+      content: "Any thefts?",
+      context_documents: citations as unknown as ChatMessage["context_documents"],
+    });
+    const time = (iso: string) => format(parseISO(iso), "PPpp");
+
+    expect(speakerLabel(chat, reply)).toBe("Site Safety");
+    expect(speakerLabel(chat, question)).toBe("User");
+    expect(transcriptToMarkdown(chat, [reply, question])).toBe(
+      [
+        "# Chat with Site Safety",
+        "",
+        "- Agent: Site Safety",
+        `- Started: ${time(chat.created_at)}`,
+        "- Messages: 2",
+        "",
+        `## User (${time(question.created_at)})`,
+        "",
+        "Any thefts?",
+        "",
+        `## Site Safety (${time(reply.created_at)})`,
+        "",
+        "Yes, see [1].",
+        "",
+        "Sources:",
+        "1. Theft at Leeds depot (incident 10)",
+        "2. Broken gate, York (incident 11)",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("names the file after the agent, start date and conversation", () => {
+    expect(transcriptFilename(chat, "md")).toBe(
+      `chat-site-safety-${format(parseISO(chat.created_at), "yyyy-MM-dd")}-42.md`
+    );
+    expect(transcriptFilename({ ...chat, assistant_name: "  R&D / Ops!" }, "pdf")).toMatch(/^chat-r-d-ops-.*\.pdf$/);
+  });
+});
@@ -0,0 +1,138 @@
+import { format, parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+
+// One conversation with an agent, and one message in it
+export type AgentChat = Tables<"adconversion_agents_chats">;
+export type ChatMessage = Omit<Tables<"chat_responses">, "content_search">;
+
+// Everything but the search vector, which is only used for filtering
+export const CHAT_MESSAGE_COLUMNS =
+  "id, conversation_id, message_id, content, role, is_broadcast, created_at, created_by, context_documents";
+
+export type ChatRole = "user" | "assistant";
+
+// An incident given to the assistant as context, cited in replies as [n]
+export interface ChatCitation {
+  documentId: number;
+  label: string;
+}
+
+export type CitationSegment = { text: string } | { number: number; citation: ChatCitation };
+
+/**
+ * Adds a message, or replaces the one with the same message_id when a
+ * streamed reply is updated, keeping the list in the order it was written.
+ */
+export function mergeMessage(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  const others = messages.filter((existing) => existing.message_id !== message.message_id);
+  return [...others, message].sort((a, b) => a.id - b.id);
+}
+
+/** True while the user's last message has no reply yet. */
+export function isAwaitingReply(messages: ChatMessage[]): boolean {
+  return messages[messages.length - 1]?.role === "user";
+}
+
+export function chatTitle(chat: AgentChat): string {
+  return chat.title || `Chat with ${chat.assistant_name || "agent"}`;
+}
+
+export function chatPath({ chatId, assistantId }: { chatId?: number; assistantId?: string } = {}): string {
+  const params = new URLSearchParams();
+  if (chatId !== undefined) params.set("chat", String(chatId));
+  if (assistantId) params.set("agent", assistantId);
+  const query = params.toString();
+  return query ? `/chat?${query}` : "/chat";
+}
+
+export function chatHistoryPath(chatId?: number): string {
+  return chatId === undefined ? "/chat/history" : `/chat/history?chat=${chatId}`;
+}
+
+/** Messages in the order they were written, for transcripts. */
+export function sortTranscript(messages: ChatMessage[]): ChatMessage[] {
+  return [...messages].sort(
+    (a, b) => (a.created_at ?? "").localeCompare(b.created_at ?? "") || a.id - b.id
+  );
+}
+
+export function speakerLabel(chat: AgentChat, message: ChatMessage): string {
+  return message.role === "user" ? "User" : chat.assistant_name || "Assistant";
+}
+
+/**
+ * A short excerpt of `content` around the first word of `search` it
+ * contains, or its opening when none match.
+ */
+export function messageSnippet(content: string, search: string, radius = 60): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  const terms = search.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const lower = text.toLowerCase();
+  const index = terms.map((term) => lower.indexOf(term)).find((position) => position >= 0) ?? 0;
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + radius);
+  return `${start > 0 ? "..." : ""}${text.slice(start, end)}${end < text.length ? "..." : ""}`;
+}
+
+export function transcriptToMarkdown(chat: AgentChat, messages: ChatMessage[]): string {
+  const lines = [
+    `# ${chatTitle(chat)}`,
+    "",
+    `- Agent: ${chat.assistant_name || chat.assistant_id || "Unknown"}`,
+    `- Started: ${format(parseISO(chat.created_at), "PPpp")}`,
+    `- Messages: ${messages.length}`,
+  ];
+
+  const sorted = sortTranscript(messages);
+  sorted.forEach((message, index) => {
+    const time = message.created_at ? ` (${format(parseISO(message.created_at), "PPpp")})` : "";
+    lines.push("", `## ${speakerLabel(chat, message)}${time}`, "", message.content);
+
+    const cited = message.role === "user" ? [] : replyCitations(sorted, index);
+    if (cited.length > 0) {
+      lines.push("", "Sources:", ...cited.map((citation, n) => `${n + 1}. ${citation.label} (incident ${citation.documentId})`));
+    }
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function transcriptFilename(chat: AgentChat, extension: string): string {
+  const agent = (chat.assistant_name || "agent").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `chat-${agent}-${format(parseISO(chat.created_at), "yyyy-MM-dd")}-${chat.id}.${extension}`;
+}
+
+/** The incidents retrieved for a user's message, in citation order. */
+export function messageCitations(message: ChatMessage): ChatCitation[] {
+  if (!Array.isArray(message.context_documents)) return [];
+  return message.context_documents.flatMap((item) =>
+    item && typeof item === "object" && !Array.isArray(item) && typeof item.documentId === "number"
+      ? [{ documentId: item.documentId, label: typeof item.label === "string" ? item.label : "" }]
+      : []
+  );
+}
+
+/** What a reply's [n] markers refer to: the context of the question it answers. */
+export function replyCitations(messages: ChatMessage[], index: number): ChatCitation[] {
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messageCitations(messages[i]);
+  }
+  return [];
+}
+
+/** Splits a reply into text and the [n] citation markers that match a citation. */
+export function splitCitations(content: string, citations: ChatCitation[]): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let last = 0;
+  for (const match of content.matchAll(/\[(\d+)\]/g)) {
+    const number = Number(match[1]);
+    const citation = citations[number - 1];
+    if (!citation) continue;
+    if (match.index > last) segments.push({ text: content.slice(last, match.index) });
+    segments.push({ number, citation });
+    last = match.index + match[0].length;
+  }
+  if (last < content.length) segments.push({ text: content.slice(last) });
+  return segments;
+}
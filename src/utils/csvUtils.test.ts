@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { guessColumnMapping, mapSiteRows, parseCsv, siteRowsToCsv, toCsv } from "./csvUtils";
+
+describe("parseCsv", () => {
+  it("splits headers from records and trims the headers", () => {
+    expect(parseCsv(" Site , Postcode\nDepot,LS1 1AA\n")).toEqual({
+      headers: ["Site", "Postcode"],
+      records: [["Depot", "LS1 1AA"]],
+    });
+  });
+
+  it("keeps commas, newlines and doubled quotes inside quoted fields", () => {
+    const { records } = parseCsv('site,address\n"Depot, North","1 High St\nLeeds"\n"The ""Old"" Mill",\n');
+    expect(records).toEqual([
+      ["Depot, North", "1 High St\nLeeds"],
+      ['The "Old" Mill', ""],
+    ]);
+  });
+
+  it("reads CRLF and CR line endings and skips blank lines", () => {
+    expect(parseCsv("site,postcode\r\nA,LS1\r\n\r\n  ,  \rB,YO1").records).toEqual([
+      ["A", "LS1"],
+      ["B", "YO1"],
+    ]);
+  });
+
+  it("strips a UTF-8 byte order mark from the first header", () => {
+    expect(parseCsv("\uFEFFsite,postcode\nA,LS1").headers).toEqual(["site", "postcode"]);
+  });
+
+  it("returns nothing for an empty file", () => {
+    expect(parseCsv("")).toEqual({ headers: [], records: [] });
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only the values that need it and round-trips through parseCsv", () => {
+    const rows = [
+      ["site", "notes"],
+      ["Depot, North", 'Says "hi"\nthen leaves'],
+      ["Plain", ""],
+    ];
+    const csv = toCsv(rows);
+    expect(csv).toBe('site,notes\n"Depot, North","Says ""hi""\nthen leaves"\nPlain,');
+    const { headers, records } = parseCsv(csv);
+    expect([headers, ...records]).toEqual(rows);
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("recognises header aliases regardless of case, underscores and dashes", () => {
+    expect(guessColumnMapping(["Site_Name", "Post-Code", "Notes", "E-mail"])).toEqual({
+      site: 0,
+      address: null,
+      postcode: 1,
+      email: 3,
+    });
+  });
+});
+
+describe("mapSiteRows", () => {
+  const mapping = { site: 0, address: null, postcode: 1, email: 2 };
+
+  it("reports missing required fields and malformed emails", () => {
+    const rows = mapSiteRows([["", "", "not-an-email"], ["Depot", "LS1 1AA", " ops@example.com "]], mapping);
+    expect(rows[0].errors).toEqual(["Missing site name", "Missing postcode", "Invalid email address"]);
+    expect(rows[1]).toEqual({
+      index: 1,
+      site: "Depot",
+      address: "",
+      postcode: "LS1 1AA",
+      email: "ops@example.com",
+      errors: [],
+    });
+  });
+
+  it("flags a site listed twice, ignoring case and postcode spacing", () => {
+    const rows = mapSiteRows([["Depot", "LS1 1AA"], ["Mill", "YO1 7HH"], ["DEPOT", "ls11aa"]], mapping);
+    expect(rows.map((row) => row.errors)).toEqual([[], [], ["Duplicate of row 1"]]);
+  });
+
+  it("leaves excluded records out without renumbering the rest", () => {
+    const rows = mapSiteRows([["Depot", "LS1 1AA"], ["Depot", "LS1 1AA"]], mapping, new Set([0]));
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ index: 1, errors: [] });
+  });
+});
+
+describe("siteRowsToCsv", () => {
+  it("writes the kept records as uploaded, under the original headers", () => {
+    const parsed = parseCsv('Site Name,Postcode,Notes\n"Depot, North",LS1 1AA,gate code 12\nMill,YO1 7HH,\n');
+    const rows = mapSiteRows(parsed.records, guessColumnMapping(parsed.headers), new Set([1]));
+    expect(siteRowsToCsv(rows, parsed)).toBe('Site Name,Postcode,Notes\n"Depot, North",LS1 1AA,gate code 12');
+  });
+});
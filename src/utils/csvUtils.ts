@@ -0,0 +1,182 @@
+import { z } from "zod";
+
+export type SiteField = "site" | "address" | "postcode" | "email";
+
+export interface SiteFieldDefinition {
+  key: SiteField;
+  label: string;
+  required: boolean;
+  // Lower-cased header names we recognise for this field
+  aliases: string[];
+}
+
+export const SITE_FIELDS: SiteFieldDefinition[] = [
+  { key: "site", label: "Site", required: true, aliases: ["site", "site name", "sitename", "name", "location"] },
+  { key: "address", label: "Address", required: false, aliases: ["address", "street", "address line 1", "address1"] },
+  { key: "postcode", label: "Postcode", required: true, aliases: ["postcode", "post code", "postal code", "zip", "zip code"] },
+  { key: "email", label: "Email", required: false, aliases: ["email", "e-mail", "email address", "contact email"] },
+];
+
+// Column index in the uploaded file for each field, or null when unmapped
+export type ColumnMapping = Record<SiteField, number | null>;
+
+export interface ParsedCsv {
+  headers: string[];
+  records: string[][];
+}
+
+export interface SiteRow {
+  // Position of the record in the uploaded file (0-based, excluding the header)
+  index: number;
+  site: string;
+  address: string;
+  postcode: string;
+  email: string;
+  errors: string[];
+}
+
+const emailSchema = z.string().email();
+
+/**
+ * Parses CSV text following RFC 4180: quoted fields may contain commas,
+ * newlines and doubled quotes. Blank lines are skipped.
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by Excel exports
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((r) => r.some((value) => value.trim() !== ""));
+  const [headers = [], ...records] = nonEmpty;
+
+  return {
+    headers: headers.map((header) => header.trim()),
+    records,
+  };
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\n");
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_-]+/g, " ").trim();
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  for (const field of SITE_FIELDS) {
+    // Aliases go through the same normalisation, so "e-mail" matches an E-mail column
+    const aliases = field.aliases.map(normalizeHeader);
+    const index = normalized.findIndex((header) => aliases.includes(header));
+    mapping[field.key] = index === -1 ? null : index;
+  }
+
+  return mapping;
+}
+
+/**
+ * Applies a column mapping to the raw records and validates each row:
+ * required fields present, email well-formed and no site listed twice.
+ * Records whose index is in `excluded` are left out entirely.
+ */
+export function mapSiteRows(
+  records: string[][],
+  mapping: ColumnMapping,
+  excluded: ReadonlySet<number> = new Set()
+): SiteRow[] {
+  const valueAt = (record: string[], field: SiteField) => {
+    const column = mapping[field];
+    return column === null ? "" : (record[column] ?? "").trim();
+  };
+
+  const rows: SiteRow[] = [];
+  records.forEach((record, index) => {
+    if (excluded.has(index)) return;
+    rows.push({
+      index,
+      site: valueAt(record, "site"),
+      address: valueAt(record, "address"),
+      postcode: valueAt(record, "postcode"),
+      email: valueAt(record, "email"),
+      errors: [],
+    });
+  });
+
+  const seen = new Map<string, number>();
+
+  for (const row of rows) {
+    if (!row.site) row.errors.push("Missing site name");
+    if (!row.postcode) row.errors.push("Missing postcode");
+    if (row.email && !emailSchema.safeParse(row.email).success) {
+      row.errors.push("Invalid email address");
+    }
+
+    if (row.site) {
+      const key = `${row.site.toLowerCase()}|${row.postcode.replace(/\s+/g, "").toLowerCase()}`;
+      const firstIndex = seen.get(key);
+      if (firstIndex !== undefined) {
+        row.errors.push(`Duplicate of row ${firstIndex + 1}`);
+      } else {
+        seen.set(key, row.index);
+      }
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Serialises the kept rows as they were uploaded, under the file's own
+ * headers, so the report workflow receives the columns it always has.
+ * Removing rows is the only change; the column mapping is for validation.
+ */
+export function siteRowsToCsv(rows: SiteRow[], { headers, records }: ParsedCsv): string {
+  return toCsv([headers, ...rows.map((row) => records[row.index])]);
+}
@@ -1,6 +1,21 @@
+import { addDays, format, isSameDay, parseISO, startOfDay } from "date-fns";
 
 export type DateSelection = Date | { from: Date; to: Date } | undefined;
 
+export type DateRange = { from: Date; to: Date };
+
+export type DatePreset = "Today" | "Next 7 Days" | "Next 14 Days" | "Next 30 Days";
+
+// Number of days after today each preset extends to
+const PRESET_DAYS: Record<DatePreset, number> = {
+  "Today": 0,
+  "Next 7 Days": 7,
+  "Next 14 Days": 14,
+  "Next 30 Days": 30,
+};
+
+export const DATE_PRESETS = Object.keys(PRESET_DAYS) as DatePreset[];
+
 export function isDateRange(selection: DateSelection): selection is { from: Date; to: Date } {
   return (
     typeof selection === "object" &&
@@ -12,3 +27,38 @@ export function isDateRange(selection: DateSelection): selection is { from: Date
   );
 }
 
+export function toDateRange(selection: DateSelection): DateRange | undefined {
+  if (!selection) return undefined;
+  if (isDateRange(selection)) return selection;
+  return { from: selection, to: selection };
+}
+
+export function getPresetRange(preset: DatePreset, today: Date = new Date()): DateRange {
+  const from = startOfDay(today);
+  return { from, to: addDays(from, PRESET_DAYS[preset]) };
+}
+
+/** Returns the preset a range corresponds to when measured from `today`, if any. */
+export function matchDatePreset(range: DateRange, today: Date = new Date()): DatePreset | null {
+  return (
+    DATE_PRESETS.find((preset) => {
+      const presetRange = getPresetRange(preset, today);
+      return isSameDay(presetRange.from, range.from) && isSameDay(presetRange.to, range.to);
+    }) ?? null
+  );
+}
+
+export function toIsoDate(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+export function fromIsoDate(value: string): Date {
+  return parseISO(value);
+}
+
+export function formatDateRange(range: DateRange): string {
+  if (isSameDay(range.from, range.to)) {
+    return format(range.from, "PPP");
+  }
+  return `${format(range.from, "PPP")} - ${format(range.to, "PPP")}`;
+}
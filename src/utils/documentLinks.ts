@@ -0,0 +1,13 @@
+// Links into the index page tabs, e.g. the documents tab opens the detail drawer for ?doc=<id>
+export function documentPath(id: number): string {
+  return `/?tab=documents&doc=${id}`;
+}
+
+export function documentUrl(id: number): string {
+  return `${window.location.origin}${documentPath(id)}`;
+}
+
+// The map tab centres on ?near=<place> and lists incidents around it
+export function incidentMapPath(near: string): string {
+  return `/?${new URLSearchParams({ tab: "map", near: near.trim() })}`;
+}
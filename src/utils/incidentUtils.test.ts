@@ -0,0 +1,119 @@
+import { PGlite } from "@electric-sql/pglite";
+import { beforeAll, describe, expect, it } from "vitest";
+import filterColumnsMigration from "../../supabase/migrations/20251019160000_documents_filter_columns.sql?raw";
+import incidentFieldsMigration from "../../supabase/migrations/20251019170000_document_incident_fields.sql?raw";
+import { getDocumentIncident, toIncidentMetadata } from "./incidentUtils";
+
+// The parser lives in the migrations; load their functions and trigger into an
+// in-memory Postgres rather than keeping a copy of them here
+function parserSql(): string {
+  const functions = [filterColumnsMigration, incidentFieldsMigration].flatMap(
+    (sql) => sql.match(/create or replace function[\s\S]*?\$\$;/g) ?? []
+  );
+  const trigger = filterColumnsMigration.match(/create trigger documents_set_incident_fields[\s\S]*?;/)?.[0];
+  return [
+    "create table public.documents (id bigserial primary key, content text, metadata jsonb, incident_date date);",
+    ...functions,
+    trigger,
+  ].join("\n");
+}
+
+describe("set_document_incident_fields", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(parserSql());
+  });
+
+  const insert = async (content: string, metadata: Record<string, string> = {}) => {
+    const { rows } = await db.query<{ metadata: Record<string, string>; incident_date: string | null }>(
+      "insert into public.documents (content, metadata) values ($1, $2) returning metadata, incident_date::text",
+      [content, metadata]
+    );
+    return rows[0];
+  };
+
+  it("reads the date from a leading social media timestamp, as written", async () => {
+    const row = await insert("Sat Aug 23 23:45:10 +0100 2025 Police called to a disturbance on the high street");
+    expect(row.incident_date).toBe("2025-08-23");
+    expect(row.metadata.incidentDate).toBe("2025-08-23");
+    expect(row.metadata.source).toBe("Social media");
+  });
+
+  it("reads a ProtectUK publication date as day/month/year", async () => {
+    const row = await insert("ProtectUK publication date 03/02/2025 Suspicious package reported");
+    expect(row.incident_date).toBe("2025-02-03");
+    expect(row.metadata.source).toBe("ProtectUK");
+  });
+
+  it("falls back to any ISO date in the text", async () => {
+    const row = await insert("Incident logged on 2025-03-14 at the north gate");
+    expect(row.incident_date).toBe("2025-03-14");
+    expect(row.metadata.source).toBeUndefined();
+  });
+
+  it("leaves the date empty when there is none", async () => {
+    const row = await insert("No date in this one");
+    expect(row.incident_date).toBeNull();
+  });
+
+  it("extracts the JSON fields and classifies severity from the type", async () => {
+    const row = await insert(
+      '{"locationOfIncident": "Leeds", "incidentType": "Burglary", "timeOfIncident": "14:30"} 2025-01-02'
+    );
+    expect(row.metadata).toMatchObject({
+      locationOfIncident: "Leeds",
+      incidentType: "Burglary",
+      timeOfIncident: "14:30",
+      severity: "medium",
+    });
+  });
+
+  it("prefers an explicit severity in the text", async () => {
+    const row = await insert('{"incidentType": "Burglary", "severity": "Critical"}');
+    expect(row.metadata.severity).toBe("critical");
+  });
+
+  it("keeps values given in metadata and classifies a type given there", async () => {
+    const row = await insert('{"locationOfIncident": "Leeds"} 2025-01-02', {
+      locationOfIncident: "York",
+      incidentType: "Armed robbery",
+      incidentDate: "2025-05-06",
+    });
+    expect(row.metadata.locationOfIncident).toBe("York");
+    expect(row.metadata.severity).toBe("high");
+    expect(row.incident_date).toBe("2025-05-06");
+  });
+});
+
+describe("getDocumentIncident", () => {
+  it("reads the stored fields without looking at the content", () => {
+    expect(
+      getDocumentIncident({
+        metadata: { locationOfIncident: "Leeds", incidentType: "Theft", severity: "MEDIUM", incidentDate: "2025-01-01" },
+        incident_date: "2025-01-02",
+      })
+    ).toEqual({
+      location: "Leeds",
+      incidentType: "Theft",
+      time: null,
+      date: "2025-01-02",
+      source: null,
+      severity: "medium",
+    });
+  });
+
+  it("treats missing, blank and malformed metadata as empty", () => {
+    const empty = { location: null, incidentType: null, time: null, date: null, source: null, severity: null };
+    expect(getDocumentIncident({ metadata: null })).toEqual(empty);
+    expect(getDocumentIncident({ metadata: ["not", "an", "object"] })).toEqual(empty);
+    expect(getDocumentIncident({ metadata: { locationOfIncident: "  ", severity: "unknown" } })).toEqual(empty);
+  });
+
+  it("round-trips through toIncidentMetadata", () => {
+    const metadata = toIncidentMetadata({ location: "Hull", date: "2025-02-03", severity: "low", source: null });
+    expect(metadata).toEqual({ locationOfIncident: "Hull", incidentDate: "2025-02-03", severity: "low" });
+    expect(getDocumentIncident({ metadata })).toMatchObject({ location: "Hull", date: "2025-02-03", severity: "low" });
+  });
+});
@@ -0,0 +1,69 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type IncidentSeverity = "low" | "medium" | "high" | "critical";
+
+export const INCIDENT_SEVERITIES: IncidentSeverity[] = ["low", "medium", "high", "critical"];
+
+export interface Incident {
+  location: string | null;
+  incidentType: string | null;
+  // As written in the source, e.g. "14:30"
+  time: string | null;
+  // yyyy-MM-dd
+  date: string | null;
+  source: string | null;
+  severity: IncidentSeverity | null;
+}
+
+// Keys used for these fields in documents.metadata
+export const INCIDENT_METADATA_KEYS = {
+  location: "locationOfIncident",
+  incidentType: "incidentType",
+  time: "timeOfIncident",
+  date: "incidentDate",
+  source: "source",
+  severity: "severity",
+} as const satisfies Record<keyof Incident, string>;
+
+export function toSeverity(value: unknown): IncidentSeverity | null {
+  if (typeof value !== "string") return null;
+  const normalized = value.toLowerCase().trim();
+  return (INCIDENT_SEVERITIES as string[]).includes(normalized) ? (normalized as IncidentSeverity) : null;
+}
+
+/** Converts incident fields to the metadata stored alongside a document. */
+export function toIncidentMetadata(incident: Partial<Incident>): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const [field, key] of Object.entries(INCIDENT_METADATA_KEYS)) {
+    const value = incident[field as keyof Incident];
+    if (value) metadata[key] = value;
+  }
+  return metadata;
+}
+
+function readMetadataString(metadata: Record<string, Json | undefined>, key: string): string | null {
+  const value = metadata[key];
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+/**
+ * Returns the incident for a stored document. Fields are parsed out of the
+ * content once, when the row is written, by the set_document_incident_fields
+ * trigger (supabase/migrations), which is the only parser; this just reads
+ * what it stored.
+ */
+export function getDocumentIncident(document: { metadata?: Json | null; incident_date?: string | null }): Incident {
+  const metadata =
+    document.metadata && typeof document.metadata === "object" && !Array.isArray(document.metadata)
+      ? document.metadata
+      : {};
+
+  return {
+    location: readMetadataString(metadata, INCIDENT_METADATA_KEYS.location),
+    incidentType: readMetadataString(metadata, INCIDENT_METADATA_KEYS.incidentType),
+    time: readMetadataString(metadata, INCIDENT_METADATA_KEYS.time),
+    date: document.incident_date ?? readMetadataString(metadata, INCIDENT_METADATA_KEYS.date),
+    source: readMetadataString(metadata, INCIDENT_METADATA_KEYS.source),
+    severity: toSeverity(metadata[INCIDENT_METADATA_KEYS.severity]),
+  };
+}
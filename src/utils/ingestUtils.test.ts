@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildIngestChunks,
+  chunkText,
+  countDuplicates,
+  csvToIngestDocuments,
+  EMPTY_INGEST_DEFAULTS,
+  ingestSourceKind,
+  normalizeIncidentDate,
+  PreparedChunk,
+  sha256Hex,
+} from "./ingestUtils";
+
+describe("chunkText", () => {
+  it("keeps short text in one chunk and drops blank paragraphs", () => {
+    expect(chunkText("First paragraph.\r\n\r\n  \r\n\r\nSecond paragraph.")).toEqual([
+      "First paragraph.\n\nSecond paragraph.",
+    ]);
+  });
+
+  it("never exceeds the chunk size and carries an overlap into the next chunk", () => {
+    const text = Array.from({ length: 12 }, (_, index) => `Sentence number ${index} about the depot.`).join(" ");
+    const chunks = chunkText(text, { maxChars: 100, overlapChars: 20 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(100);
+    const overlap = chunks[1].slice(0, chunks[1].indexOf(" Sentence"));
+    expect(overlap).not.toBe("");
+    expect(chunks[0].endsWith(overlap)).toBe(true);
+  });
+
+  it("cuts a run-on sentence between words", () => {
+    const chunks = chunkText("word ".repeat(60).trim(), { maxChars: 50, overlapChars: 0 });
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(50);
+      expect(chunk).toMatch(/^word( word)*$/);
+    }
+  });
+});
+
+describe("normalizeIncidentDate", () => {
+  it("reads ISO and UK day/month/year dates", () => {
+    expect(normalizeIncidentDate("2025-03-14")).toBe("2025-03-14");
+    expect(normalizeIncidentDate("2025-3-4T10:00")).toBe("2025-03-04");
+    expect(normalizeIncidentDate(" 03/02/2025 ")).toBe("2025-02-03");
+  });
+
+  it("rejects dates that do not exist or are not recognised", () => {
+    expect(normalizeIncidentDate("31/02/2025")).toBeNull();
+    expect(normalizeIncidentDate("2025-13-01")).toBeNull();
+    expect(normalizeIncidentDate("14 March 2025")).toBeNull();
+  });
+});
+
+describe("csvToIngestDocuments", () => {
+  const documents = csvToIngestDocuments(
+    {
+      headers: ["Incident_Type", "Location", "Date", "Priority", "Notes"],
+      records: [
+        ["Theft", "Leeds", "03/02/2025", "High", "Van broken into"],
+        ["", "", "", "", ""],
+        ["Trespass", "York", "not a date", "", ""],
+      ],
+    },
+    "log.csv"
+  );
+
+  it("makes a document per non-empty row, labelled by its line in the file", () => {
+    expect(documents.map((document) => document.label)).toEqual(["log.csv · row 2", "log.csv · row 4"]);
+    expect(documents[0].content).toBe(
+      "Incident_Type: Theft\nLocation: Leeds\nDate: 03/02/2025\nPriority: High\nNotes: Van broken into"
+    );
+  });
+
+  it("fills the incident from recognised columns", () => {
+    expect(documents[0].incident).toEqual({
+      incidentType: "Theft",
+      location: "Leeds",
+      date: "2025-02-03",
+      severity: "high",
+    });
+    expect(documents[1].incident).toEqual({ incidentType: "Trespass", location: "York", date: null });
+  });
+});
+
+describe("buildIngestChunks", () => {
+  it("prefers the document's own fields over the upload defaults", () => {
+    const [chunk] = buildIngestChunks(
+      [{ content: "Gate left open", label: "log.csv · row 2", incident: { location: "Leeds" } }],
+      { source: "Patrol log", location: "York", date: "2025-01-01" },
+      "log.csv"
+    );
+    expect(chunk).toEqual({
+      content: "Gate left open",
+      label: "log.csv · row 2",
+      metadata: {
+        locationOfIncident: "Leeds",
+        incidentDate: "2025-01-01",
+        source: "Patrol log",
+        fileName: "log.csv",
+        chunkIndex: 0,
+        chunkCount: 1,
+      },
+    });
+  });
+
+  it("numbers the parts of a document split into several chunks", () => {
+    const chunks = buildIngestChunks(
+      [{ content: "First part.\n\nSecond part.", label: "Pasted text", incident: {} }],
+      EMPTY_INGEST_DEFAULTS,
+      null,
+      { maxChars: 15, overlapChars: 0 }
+    );
+    expect(chunks.map((chunk) => chunk.label)).toEqual(["Pasted text · part 1 of 2", "Pasted text · part 2 of 2"]);
+    expect(chunks[1].metadata).toEqual({ chunkIndex: 1, chunkCount: 2 });
+  });
+});
+
+describe("sha256Hex", () => {
+  it("hashes the UTF-8 text like documents.content_hash", async () => {
+    expect(await sha256Hex("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(await sha256Hex("café")).toBe("850f7dc43910ff890f8879c0ed26fe697c93a067ad93a7d50f466a7028a9bf4e");
+  });
+});
+
+describe("ingestSourceKind and countDuplicates", () => {
+  it("tells file kinds apart by extension", () => {
+    expect(ingestSourceKind("Report.PDF")).toBe("pdf");
+    expect(ingestSourceKind("log.csv")).toBe("csv");
+    expect(ingestSourceKind("notes")).toBe("text");
+  });
+
+  it("counts each kind of duplicate", () => {
+    const chunk = (duplicate: PreparedChunk["duplicate"]) =>
+      ({ content: "", label: "", metadata: {}, hash: "", duplicate }) as PreparedChunk;
+    expect(countDuplicates([chunk("existing"), chunk("upload"), chunk("upload"), chunk(null)])).toEqual({
+      existing: 1,
+      upload: 2,
+    });
+  });
+});
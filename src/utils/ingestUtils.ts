@@ -0,0 +1,234 @@
+import { format, isValid } from "date-fns";
+import type { ParsedCsv } from "@/utils/csvUtils";
+import { Incident, toIncidentMetadata, toSeverity } from "@/utils/incidentUtils";
+
+export type IngestSourceKind = "text" | "pdf" | "csv";
+
+export type IngestMetadata = Record<string, string | number>;
+
+// One item read from an upload: a whole text or PDF file, or a CSV row
+export interface IngestDocument {
+  content: string;
+  label: string;
+  // Incident fields given explicitly by the source, e.g. CSV columns
+  incident: Partial<Incident>;
+}
+
+// Applied to every document that does not say otherwise
+export interface IngestDefaults {
+  source: string;
+  location: string;
+  // yyyy-MM-dd
+  date: string;
+}
+
+export interface IngestChunk {
+  content: string;
+  metadata: IngestMetadata;
+  label: string;
+}
+
+export interface PreparedChunk extends IngestChunk {
+  hash: string;
+  // Already stored, or repeats an earlier chunk of the same upload
+  duplicate: "existing" | "upload" | null;
+}
+
+export interface ChunkOptions {
+  maxChars: number;
+  // Tail of each chunk repeated at the start of the next, so a sentence cut
+  // at a boundary is still searchable as a whole
+  overlapChars: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { maxChars: 1000, overlapChars: 150 };
+
+export const EMPTY_INGEST_DEFAULTS: IngestDefaults = { source: "", location: "", date: "" };
+
+export function ingestSourceKind(fileName: string): IngestSourceKind {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "pdf") return "pdf";
+  if (extension === "csv") return "csv";
+  return "text";
+}
+
+function splitLongText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  if (sentences.length > 1) return sentences.flatMap((sentence) => splitLongText(sentence, maxChars));
+
+  // A single run-on sentence: cut at the last space that keeps most of the chunk
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const space = rest.lastIndexOf(" ", maxChars);
+    const cut = space > maxChars / 2 ? space : maxChars;
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+function overlapTail(text: string, overlapChars: number): string {
+  if (overlapChars <= 0) return "";
+  if (text.length <= overlapChars) return text;
+  const tail = text.slice(-overlapChars);
+  // Start on a whole word
+  const space = tail.search(/\s/);
+  return space === -1 ? "" : tail.slice(space).trim();
+}
+
+/**
+ * Splits text into chunks of at most `maxChars`, breaking between
+ * paragraphs where possible, then between sentences, then between words.
+ */
+export function chunkText(text: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): string[] {
+  const { maxChars, overlapChars } = options;
+  const paragraphs = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of paragraphs) {
+    splitLongText(paragraph, maxChars).forEach((piece, index) => {
+      const separator = index === 0 ? "\n\n" : " ";
+      if (!current) {
+        current = piece;
+      } else if (current.length + separator.length + piece.length <= maxChars) {
+        current += separator + piece;
+      } else {
+        chunks.push(current);
+        const overlap = overlapTail(current, overlapChars);
+        current = overlap && overlap.length + 1 + piece.length <= maxChars ? `${overlap} ${piece}` : piece;
+      }
+    });
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/** Reads a date column value (ISO or UK dd/mm/yyyy, as written) as yyyy-MM-dd. */
+export function normalizeIncidentDate(value: string): string | null {
+  const trimmed = value.trim();
+
+  const isoMatch = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const ukMatch = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  const parts = isoMatch
+    ? [isoMatch[1], isoMatch[2], isoMatch[3]]
+    : ukMatch
+      ? [ukMatch[3], ukMatch[2], ukMatch[1]]
+      : null;
+  if (!parts) return null;
+
+  const [year, month, day] = parts.map((part) => parseInt(part));
+  const date = new Date(year, month - 1, day);
+  // Rejects dates that roll over, e.g. 31/02
+  return isValid(date) && date.getDate() === day && date.getMonth() === month - 1
+    ? format(date, "yyyy-MM-dd")
+    : null;
+}
+
+// Lower-cased header names we recognise for each incident field
+const CSV_INCIDENT_ALIASES: Record<keyof Incident, string[]> = {
+  location: ["location", "locationofincident", "location of incident", "site", "address", "place"],
+  incidentType: ["type", "incident type", "incidenttype", "category"],
+  time: ["time", "time of incident", "timeofincident"],
+  date: ["date", "incident date", "incidentdate", "date of incident", "occurred", "reported"],
+  source: ["source"],
+  severity: ["severity", "priority"],
+};
+
+/**
+ * Turns each row of an incident log into a document. The content keeps
+ * every column as "Header: value" so nothing is lost from the embedding,
+ * while recognised columns also fill the incident metadata.
+ */
+export function csvToIngestDocuments({ headers, records }: ParsedCsv, fileName: string): IngestDocument[] {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[_-]+/g, " ").trim());
+  const columns = (Object.entries(CSV_INCIDENT_ALIASES) as [keyof Incident, string[]][]).map(
+    ([field, aliases]) => [field, normalized.findIndex((header) => aliases.includes(header))] as const
+  );
+
+  const documents: IngestDocument[] = [];
+  records.forEach((record, index) => {
+    const content = record
+      .map((value, column) => (value.trim() ? `${headers[column] || `Column ${column + 1}`}: ${value.trim()}` : ""))
+      .filter(Boolean)
+      .join("\n");
+    if (!content) return;
+
+    const incident: Partial<Incident> = {};
+    for (const [field, column] of columns) {
+      const value = column === -1 ? "" : (record[column] ?? "").trim();
+      if (!value) continue;
+      if (field === "date") {
+        incident.date = normalizeIncidentDate(value);
+      } else if (field === "severity") {
+        incident.severity = toSeverity(value);
+      } else {
+        incident[field] = value;
+      }
+    }
+
+    documents.push({ content, label: `${fileName} · row ${index + 2}`, incident });
+  });
+
+  return documents;
+}
+
+function givenIncident(document: IngestDocument, defaults: IngestDefaults): Partial<Incident> {
+  const fallback = (value: string) => value.trim() || null;
+  return {
+    ...document.incident,
+    location: document.incident.location ?? fallback(defaults.location),
+    date: document.incident.date ?? fallback(defaults.date),
+    source: document.incident.source ?? fallback(defaults.source),
+  };
+}
+
+/**
+ * Chunks each document and works out the metadata stored with every
+ * chunk. Fields given by the document win over the upload defaults; the
+ * set_document_incident_fields trigger parses the rest out of the text on
+ * insert.
+ */
+export function buildIngestChunks(
+  documents: IngestDocument[],
+  defaults: IngestDefaults,
+  fileName: string | null,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): IngestChunk[] {
+  return documents.flatMap((document) => {
+    const pieces = chunkText(document.content, options);
+    return pieces.map((content, index) => ({
+      content,
+      label: pieces.length > 1 ? `${document.label} · part ${index + 1} of ${pieces.length}` : document.label,
+      metadata: {
+        ...toIncidentMetadata(givenIncident(document, defaults)),
+        ...(fileName && { fileName }),
+        chunkIndex: index,
+        chunkCount: pieces.length,
+      },
+    }));
+  });
+}
+
+/** Hex SHA-256 of the UTF-8 text, matching documents.content_hash. */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function countDuplicates(chunks: PreparedChunk[]) {
+  return {
+    existing: chunks.filter((chunk) => chunk.duplicate === "existing").length,
+    upload: chunks.filter((chunk) => chunk.duplicate === "upload").length,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { clusterPoints, distanceKm, kmPerPixel } from "./mapUtils";
+
+const LEEDS = { lat: 53.8008, lng: -1.5491 };
+const YORK = { lat: 53.96, lng: -1.0873 };
+
+describe("distanceKm", () => {
+  it("measures great-circle distance", () => {
+    expect(distanceKm(LEEDS, YORK)).toBeCloseTo(34.8, 0);
+    expect(distanceKm(LEEDS, LEEDS)).toBe(0);
+  });
+});
+
+describe("kmPerPixel", () => {
+  it("halves with each zoom level", () => {
+    expect(kmPerPixel(0, 0)).toBeCloseTo(156.5, 0);
+    expect(kmPerPixel(6, 53)).toBeCloseTo(kmPerPixel(5, 53) / 2);
+  });
+});
+
+describe("clusterPoints", () => {
+  it("groups points within the radius and centres the cluster on their mean", () => {
+    const nearLeeds = { lat: 53.81, lng: -1.55 };
+    const clusters = clusterPoints([LEEDS, YORK, nearLeeds], 5);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].items).toEqual([LEEDS, nearLeeds]);
+    expect(clusters[0].lat).toBeCloseTo((LEEDS.lat + nearLeeds.lat) / 2);
+    expect(clusters[0].lng).toBeCloseTo((LEEDS.lng + nearLeeds.lng) / 2);
+    expect(clusters[1]).toEqual({ ...YORK, items: [YORK] });
+  });
+
+  it("puts everything in one cluster when the radius covers it", () => {
+    expect(clusterPoints([LEEDS, YORK], 50)).toHaveLength(1);
+  });
+
+  it("keeps the points' own fields", () => {
+    const [cluster] = clusterPoints([{ ...LEEDS, id: 7 }], 1);
+    expect(cluster.items[0].id).toBe(7);
+  });
+
+  it("returns no clusters for no points", () => {
+    expect(clusterPoints([], 10)).toEqual([]);
+  });
+});
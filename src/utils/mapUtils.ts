@@ -0,0 +1,47 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Cluster<T extends LatLng> extends LatLng {
+  items: T[];
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/** Great-circle distance between two points. */
+export function distanceKm(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/** Kilometres covered by one screen pixel at a web-mercator zoom level. */
+export function kmPerPixel(zoom: number, latitude: number): number {
+  return (40075 * Math.cos((latitude * Math.PI) / 180)) / (256 * 2 ** zoom);
+}
+
+/**
+ * Greedy proximity clustering: each point joins the first cluster whose
+ * centre is within radiusKm, otherwise it starts a new one. Cluster centres
+ * are the mean of their points. Good enough for the few thousand incidents
+ * the map shows at once.
+ */
+export function clusterPoints<T extends LatLng>(points: T[], radiusKm: number): Cluster<T>[] {
+  const clusters: Cluster<T>[] = [];
+
+  for (const point of points) {
+    const cluster = clusters.find((candidate) => distanceKm(candidate, point) <= radiusKm);
+    if (cluster) {
+      cluster.items.push(point);
+      cluster.lat += (point.lat - cluster.lat) / cluster.items.length;
+      cluster.lng += (point.lng - cluster.lng) / cluster.items.length;
+    } else {
+      clusters.push({ lat: point.lat, lng: point.lng, items: [point] });
+    }
+  }
+
+  return clusters;
+}
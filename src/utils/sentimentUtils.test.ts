@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  assessRisk,
+  ClientSentiment,
+  DEFAULT_SENTIMENT_THRESHOLDS,
+  describeChanges,
+  entryDate,
+  findAtRiskClients,
+  findPreviousEntry,
+  hasContent,
+  scoreDistribution,
+  sentimentEntrySchema,
+  summarizeClients,
+  toEntryValues,
+} from "./sentimentUtils";
+
+let nextId = 1;
+
+const entry = (fields: Partial<ClientSentiment>): ClientSentiment => ({
+  id: nextId++,
+  created_at: "2025-01-01T09:00:00Z",
+  companyName: "Acme",
+  date: null,
+  sentimentScore: null,
+  oneSentenceExplanation: null,
+  whatChangedFromLast: null,
+  keyWins: null,
+  goalOfClient: null,
+  struggleOfClient: null,
+  upsellOpportunities: null,
+  downgradeIntentions: null,
+  proactiveVersusReactive: null,
+  whereTheyNeedAdConversion: null,
+  problemsFrustrations: null,
+  performanceFrustrations: null,
+  creativeFrustrations: null,
+  dataFrustrations: null,
+  opsFrustrations: null,
+  ...fields,
+});
+
+describe("entryDate", () => {
+  it("reads the review date, loosely formatted ones included, falling back to creation", () => {
+    expect(entryDate(entry({ date: "2025-03-04" })).getDate()).toBe(4);
+    expect(entryDate(entry({ date: "March 5, 2025" })).getDate()).toBe(5);
+    expect(entryDate(entry({ date: "not a date", created_at: "2025-02-01T00:00:00Z" })).toISOString()).toBe(
+      "2025-02-01T00:00:00.000Z"
+    );
+  });
+});
+
+describe("summarizeClients", () => {
+  it("groups by trimmed company name, orders by review date and skips unnamed rows", () => {
+    const later = entry({ companyName: "Acme ", date: "2025-03-01", sentimentScore: 6 });
+    const earlier = entry({ companyName: "Acme", date: "2025-01-01", sentimentScore: 8 });
+    const other = entry({ companyName: "Beta", date: "2025-02-01" });
+
+    const summaries = summarizeClients([later, other, entry({ companyName: "  " }), earlier]);
+
+    expect(summaries.map((summary) => summary.companyName)).toEqual(["Acme", "Beta"]);
+    expect(summaries[0]).toMatchObject({ latest: later, previous: earlier, entries: [earlier, later] });
+    expect(summaries[1].previous).toBeNull();
+  });
+});
+
+describe("hasContent", () => {
+  it("treats placeholder answers as empty", () => {
+    for (const value of [null, "", " - ", "N/A", "None.", "none noted"]) expect(hasContent(value)).toBe(false);
+    expect(hasContent("Considering a cheaper plan")).toBe(true);
+  });
+});
+
+describe("assessRisk and findAtRiskClients", () => {
+  const summarize = (...entries: ClientSentiment[]) => summarizeClients(entries)[0];
+
+  it("flags a score drop, a low score and downgrade intentions", () => {
+    const summary = summarize(
+      entry({ date: "2025-01-01", sentimentScore: 7 }),
+      entry({ date: "2025-02-01", sentimentScore: 3, downgradeIntentions: "Moving to monthly" })
+    );
+    expect(assessRisk(summary, DEFAULT_SENTIMENT_THRESHOLDS)).toEqual([
+      "Score dropped from 7 to 3",
+      "Score of 3 is at or below 4",
+      "Downgrade intentions noted",
+    ]);
+    expect(assessRisk(summary, { scoreDrop: 5, lowScore: 2, flagDowngradeIntentions: false })).toEqual([]);
+  });
+
+  it("lists clients with the most reasons first, then the lowest score", () => {
+    const clients = summarizeClients([
+      entry({ companyName: "Fine", sentimentScore: 9 }),
+      entry({ companyName: "Low", sentimentScore: 4 }),
+      entry({ companyName: "Lower", sentimentScore: 2 }),
+      entry({ companyName: "Worst", sentimentScore: 1, downgradeIntentions: "Cancelling" }),
+    ]);
+    expect(
+      findAtRiskClients(clients, DEFAULT_SENTIMENT_THRESHOLDS).map((risk) => risk.summary.companyName)
+    ).toEqual(["Worst", "Lower", "Low"]);
+  });
+});
+
+describe("scoreDistribution", () => {
+  it("counts each client's latest score, rounded and clamped to the scale", () => {
+    const distribution = scoreDistribution(
+      summarizeClients([
+        entry({ companyName: "A", sentimentScore: 6.6 }),
+        entry({ companyName: "B", sentimentScore: 7 }),
+        entry({ companyName: "C", sentimentScore: 12 }),
+        entry({ companyName: "D", sentimentScore: null }),
+      ])
+    );
+    expect(distribution).toHaveLength(11);
+    expect(distribution[7].clients).toBe(2);
+    expect(distribution[10].clients).toBe(1);
+    expect(distribution.reduce((total, bucket) => total + bucket.clients, 0)).toBe(3);
+  });
+});
+
+describe("sentimentEntrySchema and toEntryValues", () => {
+  it("round-trips an entry through the form, turning blank text into null", () => {
+    const values = toEntryValues(entry({ date: "2025-03-04", sentimentScore: 5, keyWins: "Renewed" }));
+    const parsed = sentimentEntrySchema.parse({ ...values, goalOfClient: "   " });
+    expect(parsed).toMatchObject({ companyName: "Acme", date: "2025-03-04", sentimentScore: 5, keyWins: "Renewed" });
+    expect(parsed.goalOfClient).toBeNull();
+  });
+
+  it("rejects scores off the scale and a missing company", () => {
+    const result = sentimentEntrySchema.safeParse({ ...toEntryValues(null), sentimentScore: 11 });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path[0])).toEqual(["companyName", "sentimentScore"]);
+  });
+});
+
+describe("findPreviousEntry", () => {
+  it("finds the same company's review just before the date, ignoring the entry being edited", () => {
+    const january = entry({ companyName: "Acme", date: "2025-01-10" });
+    const february = entry({ companyName: "acme", date: "2025-02-10" });
+    const entries = [january, february, entry({ companyName: "Beta", date: "2025-02-01" })];
+
+    expect(findPreviousEntry(entries, "ACME", "2025-03-01")).toBe(february);
+    expect(findPreviousEntry(entries, "Acme", "2025-03-01", february.id)).toBe(january);
+    expect(findPreviousEntry(entries, "Acme", "2025-01-01")).toBeNull();
+  });
+});
+
+describe("describeChanges", () => {
+  const previous = entry({ sentimentScore: 6, keyWins: "Launch went well", upsellOpportunities: "n/a" });
+
+  it("describes score and text changes, one per line", () => {
+    const values = {
+      ...toEntryValues(previous),
+      sentimentScore: 8,
+      keyWins: "",
+      upsellOpportunities: "Wants video ads",
+      goalOfClient: "More leads",
+    };
+    expect(describeChanges(previous, values)).toBe(
+      [
+        "Sentiment score up from 6 to 8.",
+        "Key wins: no longer noted.",
+        "Client goal (new): More leads",
+        "Upsell opportunities (new): Wants video ads",
+      ].join("\n")
+    );
+  });
+
+  it("says so when it is the first review or nothing changed", () => {
+    expect(describeChanges(null, toEntryValues(null))).toBe("First recorded review.");
+    expect(describeChanges(previous, toEntryValues(previous))).toBe("No changes since the last review.");
+  });
+});
@@ -0,0 +1,255 @@
+import { format, isValid, parseISO } from "date-fns";
+import { z } from "zod";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ClientSentiment = Tables<"Client Sentiment">;
+
+// Scores are recorded out of 10
+export const SENTIMENT_SCORE_MAX = 10;
+
+export type SentimentTextField = Exclude<
+  keyof ClientSentiment,
+  "id" | "created_at" | "companyName" | "date" | "sentimentScore"
+>;
+
+// In the order they are shown on the detail page
+export const SENTIMENT_TEXT_FIELDS: { key: SentimentTextField; label: string }[] = [
+  { key: "oneSentenceExplanation", label: "Summary" },
+  { key: "whatChangedFromLast", label: "What changed since last review" },
+  { key: "keyWins", label: "Key wins" },
+  { key: "goalOfClient", label: "Client goal" },
+  { key: "struggleOfClient", label: "Client struggles" },
+  { key: "upsellOpportunities", label: "Upsell opportunities" },
+  { key: "downgradeIntentions", label: "Downgrade intentions" },
+  { key: "proactiveVersusReactive", label: "Proactive vs reactive" },
+  { key: "whereTheyNeedAdConversion", label: "Where they need AdConversion" },
+  { key: "problemsFrustrations", label: "Problems and frustrations" },
+  { key: "performanceFrustrations", label: "Performance frustrations" },
+  { key: "creativeFrustrations", label: "Creative frustrations" },
+  { key: "dataFrustrations", label: "Data frustrations" },
+  { key: "opsFrustrations", label: "Ops frustrations" },
+];
+
+export interface ClientSummary {
+  companyName: string;
+  latest: ClientSentiment;
+  // The entry before the latest one, if any
+  previous: ClientSentiment | null;
+  // Oldest first
+  entries: ClientSentiment[];
+}
+
+/**
+ * When a review happened: the `date` column, falling back to when the row
+ * was created for entries that were inserted without one.
+ */
+export function entryDate(entry: ClientSentiment): Date {
+  if (entry.date) {
+    const iso = parseISO(entry.date);
+    if (isValid(iso)) return iso;
+    const loose = new Date(entry.date);
+    if (isValid(loose)) return loose;
+  }
+  return parseISO(entry.created_at);
+}
+
+/** Sorts entries oldest first, breaking ties by insertion order. */
+export function sortEntries(entries: ClientSentiment[]): ClientSentiment[] {
+  return [...entries].sort(
+    (a, b) => entryDate(a).getTime() - entryDate(b).getTime() || a.id - b.id
+  );
+}
+
+/** Groups entries by company and picks out each company's latest review. */
+export function summarizeClients(entries: ClientSentiment[]): ClientSummary[] {
+  const byCompany = new Map<string, ClientSentiment[]>();
+  for (const entry of entries) {
+    const name = entry.companyName?.trim();
+    if (!name) continue;
+    byCompany.set(name, [...(byCompany.get(name) ?? []), entry]);
+  }
+
+  return [...byCompany.entries()]
+    .map(([companyName, companyEntries]) => {
+      const sorted = sortEntries(companyEntries);
+      return {
+        companyName,
+        latest: sorted[sorted.length - 1],
+        previous: sorted.length > 1 ? sorted[sorted.length - 2] : null,
+        entries: sorted,
+      };
+    })
+    .sort((a, b) => a.companyName.localeCompare(b.companyName));
+}
+
+export function scoreVariant(score: number | null): "default" | "secondary" | "destructive" | "outline" {
+  if (score === null) return "outline";
+  if (score >= 7) return "default";
+  if (score >= 4) return "secondary";
+  return "destructive";
+}
+
+export function clientPath(companyName: string): string {
+  return `/clients/${encodeURIComponent(companyName)}`;
+}
+
+export interface SentimentThresholds {
+  // Flag a client when their score falls by at least this much between reviews
+  scoreDrop: number;
+  // Flag a client whose latest score is at or below this
+  lowScore: number;
+  flagDowngradeIntentions: boolean;
+}
+
+// Used until a team saves its own
+export const DEFAULT_SENTIMENT_THRESHOLDS: SentimentThresholds = {
+  scoreDrop: 2,
+  lowScore: 4,
+  flagDowngradeIntentions: true,
+};
+
+export interface ClientRisk {
+  summary: ClientSummary;
+  reasons: string[];
+}
+
+// Free-text fields are often filled with a placeholder rather than left empty
+const EMPTY_ANSWERS = new Set(["", "-", "none", "n/a", "na", "no", "nothing", "null", "none noted"]);
+
+export function hasContent(value: string | null): boolean {
+  return value !== null && !EMPTY_ANSWERS.has(value.trim().toLowerCase().replace(/\.$/, ""));
+}
+
+/** Lists why a client looks at risk of churning; empty when they don't. */
+export function assessRisk(summary: ClientSummary, thresholds: SentimentThresholds): string[] {
+  const reasons: string[] = [];
+  const latest = summary.latest.sentimentScore;
+  const previous = summary.previous?.sentimentScore ?? null;
+
+  if (latest !== null && previous !== null && previous - latest >= thresholds.scoreDrop) {
+    reasons.push(`Score dropped from ${previous} to ${latest}`);
+  }
+  if (latest !== null && latest <= thresholds.lowScore) {
+    reasons.push(`Score of ${latest} is at or below ${thresholds.lowScore}`);
+  }
+  if (thresholds.flagDowngradeIntentions && hasContent(summary.latest.downgradeIntentions)) {
+    reasons.push("Downgrade intentions noted");
+  }
+
+  return reasons;
+}
+
+/** At-risk clients, most reasons first and then lowest score. */
+export function findAtRiskClients(clients: ClientSummary[], thresholds: SentimentThresholds): ClientRisk[] {
+  return clients
+    .map((summary) => ({ summary, reasons: assessRisk(summary, thresholds) }))
+    .filter((risk) => risk.reasons.length > 0)
+    .sort(
+      (a, b) =>
+        b.reasons.length - a.reasons.length ||
+        (a.summary.latest.sentimentScore ?? Infinity) - (b.summary.latest.sentimentScore ?? Infinity)
+    );
+}
+
+/** Number of clients whose latest score rounds to each whole score. */
+export function scoreDistribution(clients: ClientSummary[]): { score: number; clients: number }[] {
+  const counts = Array.from({ length: SENTIMENT_SCORE_MAX + 1 }, (_, score) => ({ score, clients: 0 }));
+  for (const client of clients) {
+    const score = client.latest.sentimentScore;
+    if (score === null) continue;
+    const bucket = Math.min(SENTIMENT_SCORE_MAX, Math.max(0, Math.round(score)));
+    counts[bucket].clients += 1;
+  }
+  return counts;
+}
+
+const optionalText = z
+  .string()
+  .trim()
+  .transform((value) => value || null)
+  .nullable();
+
+// What the sentiment form edits; whatChangedFromLast is included so it can be corrected by hand
+export const sentimentEntrySchema = z.object({
+  companyName: z.string().trim().min(1, "Company name is required"),
+  date: z.string().date("Enter a valid date"),
+  sentimentScore: z.coerce
+    .number({ invalid_type_error: "Enter a score" })
+    .min(0, "Score cannot be negative")
+    .max(SENTIMENT_SCORE_MAX, `Score cannot be above ${SENTIMENT_SCORE_MAX}`),
+  ...(Object.fromEntries(SENTIMENT_TEXT_FIELDS.map(({ key }) => [key, optionalText])) as Record<
+    SentimentTextField,
+    typeof optionalText
+  >),
+});
+
+// Form state, and the row fields it saves once parsed
+export type SentimentEntryValues = z.input<typeof sentimentEntrySchema>;
+export type SentimentEntry = z.output<typeof sentimentEntrySchema>;
+
+/** Form values for an existing entry, or a blank review dated today. */
+export function toEntryValues(entry: ClientSentiment | null, companyName = ""): SentimentEntryValues {
+  const text = Object.fromEntries(
+    SENTIMENT_TEXT_FIELDS.map(({ key }) => [key, entry?.[key] ?? ""])
+  ) as Record<SentimentTextField, string>;
+
+  return {
+    companyName: entry?.companyName ?? companyName,
+    date: format(entry ? entryDate(entry) : new Date(), "yyyy-MM-dd"),
+    sentimentScore: entry?.sentimentScore ?? undefined,
+    ...text,
+  };
+}
+
+function normalizeText(value: string | null | undefined): string {
+  return (value ?? "").trim().replace(/\s+/g, " ");
+}
+
+/** The review for the same company immediately before `date`, ignoring the entry being edited. */
+export function findPreviousEntry(
+  entries: ClientSentiment[],
+  companyName: string,
+  date: string,
+  excludeId?: number
+): ClientSentiment | null {
+  const name = companyName.trim().toLowerCase();
+  const before = sortEntries(entries).filter(
+    (entry) =>
+      entry.id !== excludeId &&
+      entry.companyName?.trim().toLowerCase() === name &&
+      (!date || entryDate(entry) <= parseISO(date))
+  );
+  return before[before.length - 1] ?? null;
+}
+
+/**
+ * Summarises how a review differs from the previous one, one line per
+ * change, for pre-filling whatChangedFromLast.
+ */
+export function describeChanges(previous: ClientSentiment | null, values: SentimentEntryValues): string {
+  if (!previous) return "First recorded review.";
+
+  const lines: string[] = [];
+  const score = values.sentimentScore;
+  if (Number.isFinite(score) && previous.sentimentScore !== null && score !== previous.sentimentScore) {
+    const direction = score > previous.sentimentScore ? "up" : "down";
+    lines.push(`Sentiment score ${direction} from ${previous.sentimentScore} to ${score}.`);
+  }
+
+  for (const { key, label } of SENTIMENT_TEXT_FIELDS) {
+    if (key === "whatChangedFromLast" || key === "oneSentenceExplanation") continue;
+    const before = normalizeText(previous[key]);
+    const after = normalizeText(values[key]);
+    if (before === after || (!hasContent(before) && !hasContent(after))) continue;
+
+    if (!hasContent(after)) {
+      lines.push(`${label}: no longer noted.`);
+    } else if (!hasContent(before)) {
+      lines.push(`${label} (new): ${after}`);
+    } else {
+      lines.push(`${label} updated: ${after}`);
+    }
+  }
+
+  return lines.length > 0 ? lines.join("\n") : "No changes since the last review.";
+}
@@ -0,0 +1,62 @@
+import { format, parseISO } from "date-fns";
+import { jsPDF } from "jspdf";
+import { downloadBlob } from "@/utils/chartExport";
+import {
+  AgentChat,
+  ChatMessage,
+  chatTitle,
+  sortTranscript,
+  speakerLabel,
+  transcriptFilename,
+  transcriptToMarkdown,
+} from "@/utils/chatUtils";
+
+export function downloadTranscriptMarkdown(chat: AgentChat, messages: ChatMessage[]) {
+  downloadBlob(
+    new Blob([transcriptToMarkdown(chat, messages)], { type: "text/markdown" }),
+    transcriptFilename(chat, "md")
+  );
+}
+
+// Millimetres, on A4 pages
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 5;
+
+/** Lays the transcript out as plain text on A4 pages, one block per message. */
+export function downloadTranscriptPdf(chat: AgentChat, messages: ChatMessage[]) {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const writeLines = (lines: string[], lineHeight = LINE_HEIGHT) => {
+    for (const line of lines) {
+      if (y + lineHeight > pageHeight - PAGE_MARGIN) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+      doc.text(line, PAGE_MARGIN, y);
+      y += lineHeight;
+    }
+  };
+
+  doc.setFont("helvetica", "bold").setFontSize(14);
+  writeLines(doc.splitTextToSize(chatTitle(chat), textWidth), 7);
+  doc.setFont("helvetica", "normal").setFontSize(9).setTextColor(100);
+  writeLines([
+    `Agent: ${chat.assistant_name || chat.assistant_id || "Unknown"}`,
+    `Started: ${format(parseISO(chat.created_at), "PPpp")}`,
+  ]);
+  y += LINE_HEIGHT;
+
+  for (const message of sortTranscript(messages)) {
+    const time = message.created_at ? ` - ${format(parseISO(message.created_at), "PPpp")}` : "";
+    doc.setFont("helvetica", "bold").setFontSize(10).setTextColor(0);
+    writeLines([`${speakerLabel(chat, message)}${time}`]);
+    doc.setFont("helvetica", "normal");
+    writeLines(doc.splitTextToSize(message.content, textWidth));
+    y += LINE_HEIGHT / 2;
+  }
+
+  doc.save(transcriptFilename(chat, "pdf"));
+}
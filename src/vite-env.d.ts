@@ -1 +1,23 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY?: string
+  readonly VITE_REPORT_WEBHOOK_URL?: string
+  readonly VITE_REPORT_TIMEOUT_MS?: string
+  readonly VITE_EMBEDDING_PROVIDER?: string
+  readonly VITE_EMBEDDING_DIMENSIONS?: string
+  readonly VITE_GEOCODER_PROVIDER?: string
+  readonly VITE_MAP_TILE_URL?: string
+  readonly VITE_CHAT_BACKEND?: string
+  readonly VITE_CHAT_WEBHOOK_URL?: string
+  readonly VITE_BRAND_COMPANY_NAME?: string
+  readonly VITE_BRAND_SHORT_NAME?: string
+  readonly VITE_BRAND_APP_NAME?: string
+  readonly VITE_BRAND_PRODUCT_NAME?: string
+  readonly VITE_BRAND_LOGO_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -0,0 +1,76 @@
+// Stand-in assistant for development: repeats the message back, written a
+// few words at a time so the streaming path through realtime is exercised
+// without an assistant service. Replies are written with the service role,
+// as the assistant service does; users cannot write assistant messages.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const WORDS_PER_UPDATE = 3;
+const UPDATE_DELAY_MS = 150;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { chatId, content, context } = await req.json();
+    if (typeof chatId !== "number" || typeof content !== "string") {
+      return jsonResponse({ error: "chatId and content are required" }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+
+    // Only reply in conversations the caller owns
+    const caller = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: owned, error: ownedError } = await caller.rpc("owns_agent_chat", { _conversation_id: chatId });
+    if (ownedError) throw ownedError;
+    if (!owned) {
+      return jsonResponse({ error: "Conversation not found" }, 404);
+    }
+
+    const service = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const citations = (Array.isArray(context) ? context : []).map((_, index) => `[${index + 1}]`).join(", ");
+    const reply = `You said: ${content}${citations ? `\n\nThe closest incidents on record are ${citations}.` : ""}`;
+    const words = reply.split(/(?<=\s)/);
+    const messageId = crypto.randomUUID();
+
+    const { error } = await service.from("chat_responses").insert({
+      conversation_id: chatId,
+      message_id: messageId,
+      content: words.slice(0, WORDS_PER_UPDATE).join(""),
+      role: "assistant",
+    });
+    if (error) throw error;
+
+    for (let end = WORDS_PER_UPDATE * 2; end < words.length + WORDS_PER_UPDATE; end += WORDS_PER_UPDATE) {
+      await delay(UPDATE_DELAY_MS);
+      const { error: updateError } = await service
+        .from("chat_responses")
+        .update({ content: words.slice(0, end).join("") })
+        .eq("message_id", messageId);
+      if (updateError) throw updateError;
+    }
+
+    return jsonResponse({ messageId });
+  } catch (error) {
+    console.error("Error writing echo reply:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,53 @@
+// Embeds text with the same model used to populate documents.embedding, so
+// query vectors are comparable with stored ones. The OpenAI key stays
+// server-side as the OPENAI_API_KEY function secret.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EMBEDDING_MODEL = Deno.env.get("EMBEDDING_MODEL") ?? "text-embedding-3-small";
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { input } = await req.json();
+    if (!Array.isArray(input) || input.some((text) => typeof text !== "string")) {
+      return new Response(JSON.stringify({ error: "input must be an array of strings" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const response = await fetch("https://api.openai.com/v1/embeddings", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${Deno.env.get("OPENAI_API_KEY")}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ model: EMBEDDING_MODEL, input }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding API responded with status: ${response.status}`);
+    }
+
+    const { data } = await response.json();
+    const embeddings = data.map((item: { embedding: number[] }) => item.embedding);
+
+    return new Response(JSON.stringify({ embeddings }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error creating embeddings:", error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,23 @@
+-- Generated security reports, shared across the whole team
+create table public.security_reports (
+  id uuid primary key default gen_random_uuid(),
+  location text not null,
+  date_option text not null,
+  email text not null,
+  report_url text not null,
+  generated_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index security_reports_generated_at_idx
+  on public.security_reports (generated_at desc);
+
+alter table public.security_reports enable row level security;
+
+create policy "Anyone can view security reports"
+  on public.security_reports for select
+  using (true);
+
+create policy "Anyone can create security reports"
+  on public.security_reports for insert
+  with check (true);
@@ -0,0 +1,29 @@
+-- Track report generation as jobs: a row is created as soon as a report is
+-- requested and moves through queued -> running -> succeeded | failed.
+alter table public.security_reports
+  alter column report_url drop not null,
+  add column status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed')),
+  add column error text,
+  add column attempts integer not null default 0,
+  add column csv_content text,
+  add column completed_at timestamptz,
+  -- When the job last entered queued or running; jobs left there past the
+  -- report timeout were abandoned (e.g. the tab running them was closed)
+  add column started_at timestamptz not null default now(),
+  -- When the workflow accepted the job for background processing (HTTP 202);
+  -- from then on it completes the row itself, however long that takes
+  add column accepted_at timestamptz;
+
+-- Existing rows were only ever stored once the report was ready
+update public.security_reports
+  set status = 'succeeded', attempts = 1, completed_at = generated_at;
+
+create index security_reports_status_idx
+  on public.security_reports (status)
+  where status in ('queued', 'running');
+
+create policy "Anyone can update security reports"
+  on public.security_reports for update
+  using (true)
+  with check (true);
@@ -0,0 +1,7 @@
+-- Reports generated together from one CSV upload share a batch id
+alter table public.security_reports
+  add column batch_id uuid;
+
+create index security_reports_batch_id_idx
+  on public.security_reports (batch_id)
+  where batch_id is not null;
@@ -0,0 +1,20 @@
+-- Reports cover an explicit date range; date_option now only records the
+-- preset shortcut that produced the range, when one was used.
+alter table public.security_reports
+  add column date_from date,
+  add column date_to date,
+  alter column date_option drop not null;
+
+update public.security_reports
+  set date_from = generated_at::date,
+      date_to = generated_at::date + case date_option
+        when 'Next 7 Days' then 7
+        when 'Next 14 Days' then 14
+        when 'Next 30 Days' then 30
+        else 0
+      end;
+
+alter table public.security_reports
+  alter column date_from set not null,
+  alter column date_to set not null,
+  add constraint security_reports_date_range_check check (date_from <= date_to);
@@ -0,0 +1,43 @@
+-- Reports now belong to the signed-in user who requested them, and only
+-- signed-in users can read or write the table.
+alter table public.security_reports
+  add column created_by uuid references auth.users (id) on delete set null default auth.uid();
+
+drop policy "Anyone can view security reports" on public.security_reports;
+drop policy "Anyone can create security reports" on public.security_reports;
+drop policy "Anyone can update security reports" on public.security_reports;
+
+create policy "Signed-in users can view security reports"
+  on public.security_reports for select
+  to authenticated
+  using (true);
+
+create policy "Signed-in users can create security reports"
+  on public.security_reports for insert
+  to authenticated
+  with check (created_by = auth.uid());
+
+-- Jobs are run, and so updated, by the tab of the user who requested them
+create policy "Users can update their own security reports"
+  on public.security_reports for update
+  to authenticated
+  using (created_by = auth.uid())
+  with check (created_by = auth.uid());
+
+-- Who requested a report never changes, whoever updates it. Clearing it is
+-- allowed: that is what deleting the user does (on delete set null).
+create or replace function public.keep_security_report_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.created_by is not null and new.created_by is distinct from old.created_by then
+    raise exception 'created_by cannot be changed' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger security_reports_keep_owner
+  before update of created_by on public.security_reports
+  for each row execute function public.keep_security_report_owner();
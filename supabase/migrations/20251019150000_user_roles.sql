@@ -0,0 +1,152 @@
+-- Role-based access control. Each signed-in user holds one or more roles
+-- which decide what they can see in the app and, through the policies below,
+-- what the database will return to them.
+create type public.app_role as enum ('guard', 'supervisor', 'account_manager', 'admin');
+
+create table public.user_roles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role public.app_role not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, role)
+);
+
+alter table public.user_roles enable row level security;
+
+-- Security definer so policies can check roles without recursing into
+-- user_roles' own policies
+create or replace function public.has_role(_user_id uuid, _role public.app_role)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_roles
+    where user_id = _user_id and role = _role
+  )
+$$;
+
+create or replace function public.has_any_role(_user_id uuid, _roles public.app_role[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_roles
+    where user_id = _user_id and role = any (_roles)
+  )
+$$;
+
+create policy "Users can view their own roles"
+  on public.user_roles for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can manage roles"
+  on public.user_roles for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- New users start with the least privileged role
+create or replace function public.handle_new_user_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.user_roles (user_id, role) values (new.id, 'guard');
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created_assign_role
+  after insert on auth.users
+  for each row execute function public.handle_new_user_role();
+
+insert into public.user_roles (user_id, role)
+  select id, 'guard' from auth.users
+  on conflict do nothing;
+
+-- Security reports: every role can view and request reports; only the
+-- requester (or an admin) can update one
+drop policy "Signed-in users can view security reports" on public.security_reports;
+drop policy "Signed-in users can create security reports" on public.security_reports;
+drop policy "Users can update their own security reports" on public.security_reports;
+
+create policy "Staff can view security reports"
+  on public.security_reports for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), array['guard', 'supervisor', 'account_manager', 'admin']::public.app_role[]));
+
+create policy "Staff can create security reports"
+  on public.security_reports for insert
+  to authenticated
+  with check (
+    created_by = auth.uid()
+    and public.has_any_role(auth.uid(), array['guard', 'supervisor', 'account_manager', 'admin']::public.app_role[])
+  );
+
+create policy "Staff can update their own security reports"
+  on public.security_reports for update
+  to authenticated
+  using (created_by = auth.uid() or public.has_role(auth.uid(), 'admin'))
+  with check (created_by = auth.uid() or public.has_role(auth.uid(), 'admin'));
+
+-- Documents: operational roles can read incidents, but not the raw
+-- embedding column
+alter table public.documents enable row level security;
+
+create policy "Operational staff can view documents"
+  on public.documents for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), array['guard', 'supervisor', 'admin']::public.app_role[]));
+
+revoke select on public.documents from anon, authenticated;
+grant select (id, content, metadata) on public.documents to authenticated;
+
+-- match_documents compares against the embedding column, so it has to run
+-- with the owner's privileges now that callers cannot read that column. That
+-- bypasses the policy above, so it checks the caller's role itself.
+drop function if exists public.match_documents(vector, integer, jsonb);
+
+create function public.match_documents(
+  query_embedding vector,
+  match_count int default null,
+  filter jsonb default '{}'
+)
+returns table (id bigint, content text, metadata jsonb, similarity float)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(auth.uid(), array['guard', 'supervisor', 'admin']::public.app_role[]) then
+    raise exception 'Not allowed to view documents' using errcode = '42501';
+  end if;
+
+  return query
+    select d.id, d.content, d.metadata, 1 - (d.embedding <=> query_embedding) as similarity
+    from public.documents d
+    where d.metadata @> filter and d.embedding is not null
+    order by d.embedding <=> query_embedding
+    limit match_count;
+end;
+$$;
+
+revoke execute on function public.match_documents(vector, integer, jsonb) from public, anon;
+grant execute on function public.match_documents(vector, integer, jsonb) to authenticated;
+
+-- Client sentiment is for account managers only
+alter table public."Client Sentiment" enable row level security;
+
+create policy "Account managers can view client sentiment"
+  on public."Client Sentiment" for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), array['account_manager', 'admin']::public.app_role[]));
@@ -0,0 +1,83 @@
+-- Make DocumentsViewer filters queryable server-side. Incident fields that
+-- only existed inside the content text are copied into metadata, and the
+-- incident date gets its own indexed column.
+create extension if not exists pg_trgm;
+
+create or replace function public.extract_incident_date(_content text)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  _match text[];
+begin
+  if _content is null then
+    return null;
+  end if;
+
+  -- Timestamp at start, e.g. "Mon Aug 22 16:14:23 +0000 2025"
+  _match := regexp_match(_content, '^\w{3} (\w{3}) (\d{1,2}) \d{2}:\d{2}:\d{2} [+-]\d{4} (\d{4})');
+  if _match is not null then
+    return to_date(_match[3] || ' ' || _match[1] || ' ' || _match[2], 'YYYY Mon DD');
+  end if;
+
+  -- Publication date "dd/mm/yyyy"
+  _match := regexp_match(_content, 'ProtectUK publication date\s*(\d{1,2})/(\d{1,2})/(\d{4})');
+  if _match is not null then
+    return make_date(_match[3]::int, _match[2]::int, _match[1]::int);
+  end if;
+
+  -- Any YYYY-MM-DD
+  _match := regexp_match(_content, '(\d{4}-\d{2}-\d{2})');
+  if _match is not null then
+    return _match[1]::date;
+  end if;
+
+  return null;
+exception
+  when others then
+    return null;
+end;
+$$;
+
+create or replace function public.extract_incident_metadata(_content text)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_strip_nulls(jsonb_build_object(
+    'locationOfIncident', (regexp_match(_content, '"locationOfIncident":\s*"([^"]+)"'))[1],
+    'incidentType', (regexp_match(_content, '"incidentType":\s*"([^"]+)"'))[1],
+    'timeOfIncident', (regexp_match(_content, '"timeOfIncident":\s*"([^"]+)"'))[1]
+  ))
+$$;
+
+alter table public.documents
+  add column incident_date date;
+
+create or replace function public.set_document_incident_fields()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Values already present in metadata win over ones scraped from content
+  new.metadata := public.extract_incident_metadata(new.content) || coalesce(new.metadata, '{}'::jsonb);
+  new.incident_date := public.extract_incident_date(new.content);
+  return new;
+end;
+$$;
+
+create trigger documents_set_incident_fields
+  before insert or update of content, metadata on public.documents
+  for each row execute function public.set_document_incident_fields();
+
+update public.documents set content = content;
+
+create index documents_incident_date_idx on public.documents (incident_date desc nulls last, id desc);
+create index documents_content_trgm_idx on public.documents using gin (content gin_trgm_ops);
+create index documents_location_trgm_idx
+  on public.documents using gin ((metadata ->> 'locationOfIncident') gin_trgm_ops);
+create index documents_type_trgm_idx
+  on public.documents using gin ((metadata ->> 'incidentType') gin_trgm_ops);
+
+grant select (incident_date) on public.documents to authenticated;
@@ -0,0 +1,66 @@
+-- Store the full typed incident (read by src/utils/incidentUtils.ts) in
+-- documents.metadata at write time so readers never need to scrape content.
+-- These functions are the only incident parser; the app reads what they store.
+-- Adds source, severity and incidentDate to the fields copied in 20251019160000.
+create or replace function public.classify_incident_severity(_incident_type text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when _incident_type is null then null
+    when _incident_type ~* 'terror|firearm|shooting|explosi|bomb|stabbing|murder|kidnap' then 'critical'
+    when _incident_type ~* 'assault|robbery|weapon|knife|arson|violen|attack' then 'high'
+    when _incident_type ~* 'burglary|theft|break[- ]?in|vandal|criminal damage|trespass|drug' then 'medium'
+    when _incident_type ~* 'suspicious|antisocial|anti-social|disturbance|noise|loiter' then 'low'
+  end
+$$;
+
+create or replace function public.extract_incident_metadata(_content text)
+returns jsonb
+language sql
+immutable
+as $$
+  with fields as (
+    select
+      (regexp_match(_content, '"locationOfIncident":\s*"([^"]+)"'))[1] as location,
+      (regexp_match(_content, '"incidentType":\s*"([^"]+)"'))[1] as incident_type,
+      (regexp_match(_content, '"timeOfIncident":\s*"([^"]+)"'))[1] as time_of_incident,
+      lower((regexp_match(_content, '"severity":\s*"(low|medium|high|critical)"', 'i'))[1]) as severity,
+      public.extract_incident_date(_content) as incident_date
+  )
+  select jsonb_strip_nulls(jsonb_build_object(
+    'locationOfIncident', location,
+    'incidentType', incident_type,
+    'timeOfIncident', time_of_incident,
+    'incidentDate', to_char(incident_date, 'YYYY-MM-DD'),
+    'source', case
+      when _content ~ 'ProtectUK publication date' then 'ProtectUK'
+      when _content ~ '^\w{3} \w{3} \d{1,2} \d{2}:\d{2}:\d{2} [+-]\d{4} \d{4}' then 'Social media'
+    end,
+    'severity', coalesce(severity, public.classify_incident_severity(incident_type))
+  ))
+  from fields
+$$;
+
+create or replace function public.set_document_incident_fields()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Values already present in metadata win over ones scraped from content
+  new.metadata := public.extract_incident_metadata(new.content) || coalesce(new.metadata, '{}'::jsonb);
+  -- An incident type given in metadata (e.g. an imported CSV column) still gets a severity
+  if new.metadata ->> 'severity' is null and public.classify_incident_severity(new.metadata ->> 'incidentType') is not null then
+    new.metadata := new.metadata
+      || jsonb_build_object('severity', public.classify_incident_severity(new.metadata ->> 'incidentType'));
+  end if;
+  new.incident_date := coalesce(
+    public.extract_incident_date(new.metadata ->> 'incidentDate'),
+    public.extract_incident_date(new.content)
+  );
+  return new;
+end;
+$$;
+
+update public.documents set content = content;
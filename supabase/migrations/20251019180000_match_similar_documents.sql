@@ -0,0 +1,32 @@
+-- Similar incidents for the document detail drawer. Callers cannot read the
+-- embedding column, so this looks the document's embedding up with the
+-- owner's privileges and compares it against the rest of the table.
+create or replace function public.match_similar_documents(doc_id bigint, match_count int default 5)
+returns table (id bigint, content text, metadata jsonb, similarity float)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  _embedding vector;
+begin
+  if not public.has_any_role(auth.uid(), array['guard', 'supervisor', 'admin']::public.app_role[]) then
+    raise exception 'Not allowed to view documents' using errcode = '42501';
+  end if;
+
+  select d.embedding into _embedding from public.documents d where d.id = doc_id;
+  if _embedding is null then
+    return;
+  end if;
+
+  return query
+    select d.id, d.content, d.metadata, 1 - (d.embedding <=> _embedding) as similarity
+    from public.documents d
+    where d.id <> doc_id and d.embedding is not null
+    order by d.embedding <=> _embedding
+    limit match_count;
+end;
+$$;
+
+grant execute on function public.match_similar_documents(bigint, int) to authenticated;
@@ -0,0 +1,99 @@
+-- Teams of account managers, and the churn-risk thresholds each team uses
+-- when flagging clients in the Client Sentiment tab.
+create table public.teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table public.team_members (
+  team_id uuid not null references public.teams (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (team_id, user_id)
+);
+
+create index team_members_user_id_idx on public.team_members (user_id);
+
+create table public.sentiment_thresholds (
+  team_id uuid primary key references public.teams (id) on delete cascade,
+  -- Flag a client when their score falls by at least this much between reviews
+  score_drop numeric not null default 2 check (score_drop > 0),
+  -- Flag a client whose latest score is at or below this
+  low_score numeric not null default 4 check (low_score >= 0),
+  flag_downgrade_intentions boolean not null default true,
+  updated_at timestamptz not null default now(),
+  updated_by uuid default auth.uid() references auth.users (id) on delete set null
+);
+
+create or replace function public.is_team_member(_user_id uuid, _team_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.team_members
+    where user_id = _user_id and team_id = _team_id
+  )
+$$;
+
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+alter table public.sentiment_thresholds enable row level security;
+
+create policy "Members can view their teams"
+  on public.teams for select
+  to authenticated
+  using (public.is_team_member(auth.uid(), id) or public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can manage teams"
+  on public.teams for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create policy "Members can view their team memberships"
+  on public.team_members for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can manage team members"
+  on public.team_members for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create policy "Members can view their team thresholds"
+  on public.sentiment_thresholds for select
+  to authenticated
+  using (public.is_team_member(auth.uid(), team_id) or public.has_role(auth.uid(), 'admin'));
+
+-- updated_by has to be the caller, and an update may not move a row to a
+-- team the caller could not have written to in the first place
+create policy "Account managers can set their team thresholds"
+  on public.sentiment_thresholds for insert
+  to authenticated
+  with check (
+    (
+      (public.is_team_member(auth.uid(), team_id) and public.has_role(auth.uid(), 'account_manager'))
+      or public.has_role(auth.uid(), 'admin')
+    )
+    and updated_by = auth.uid()
+  );
+
+create policy "Account managers can update their team thresholds"
+  on public.sentiment_thresholds for update
+  to authenticated
+  using (
+    (public.is_team_member(auth.uid(), team_id) and public.has_role(auth.uid(), 'account_manager'))
+    or public.has_role(auth.uid(), 'admin')
+  )
+  with check (
+    (
+      (public.is_team_member(auth.uid(), team_id) and public.has_role(auth.uid(), 'account_manager'))
+      or public.has_role(auth.uid(), 'admin')
+    )
+    and updated_by = auth.uid()
+  );
@@ -0,0 +1,12 @@
+-- Account managers record and correct sentiment reviews from the app rather
+-- than only through the external import.
+create policy "Account managers can add client sentiment"
+  on public."Client Sentiment" for insert
+  to authenticated
+  with check (public.has_any_role(auth.uid(), array['account_manager', 'admin']::public.app_role[]));
+
+create policy "Account managers can update client sentiment"
+  on public."Client Sentiment" for update
+  to authenticated
+  using (public.has_any_role(auth.uid(), array['account_manager', 'admin']::public.app_role[]))
+  with check (public.has_any_role(auth.uid(), array['account_manager', 'admin']::public.app_role[]));
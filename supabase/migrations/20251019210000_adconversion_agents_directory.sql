@@ -0,0 +1,51 @@
+-- Agents are retired rather than deleted so past chats still resolve their
+-- assistant, and each assistant can only be listed once.
+alter table public.adconversion_agents
+  add column retired_at timestamptz;
+
+-- Stop with the offending ids rather than a bare unique violation. Which
+-- duplicate to keep is a judgement call (chats refer to the assistant id), so
+-- resolve them by hand and re-run.
+do $$
+declare
+  _duplicates text;
+begin
+  select string_agg(format('%s (%s rows)', assistant_id, total), ', ')
+    into _duplicates
+    from (
+      select assistant_id, count(*) as total
+      from public.adconversion_agents
+      group by assistant_id
+      having count(*) > 1
+    ) duplicates;
+
+  if _duplicates is not null then
+    raise exception 'adconversion_agents has duplicate assistant_id values: %', _duplicates
+      using hint = 'Delete or re-key the extra rows, then run this migration again.';
+  end if;
+end;
+$$;
+
+create unique index adconversion_agents_assistant_id_key
+  on public.adconversion_agents (assistant_id);
+
+-- Note: with RLS on, anything still writing to this table with the anon key
+-- (e.g. an external sync) is refused. Such writers need the service role key,
+-- which bypasses these policies.
+alter table public.adconversion_agents enable row level security;
+
+create policy "Account managers can view agents"
+  on public.adconversion_agents for select
+  to authenticated
+  using (public.has_any_role(auth.uid(), array['account_manager', 'admin']::public.app_role[]));
+
+create policy "Admins can add agents"
+  on public.adconversion_agents for insert
+  to authenticated
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can update agents"
+  on public.adconversion_agents for update
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,102 @@
+-- Chats with AdConversion agents. Each adconversion_agents_chats row is one
+-- conversation owned by the user who started it; chat_responses holds both
+-- sides of it, told apart by role, keyed to the chat by conversation_id.
+alter table public.adconversion_agents_chats
+  add column user_id uuid references auth.users (id) on delete cascade default auth.uid(),
+  add column title text,
+  add column updated_at timestamptz not null default now();
+
+create index adconversion_agents_chats_user_id_idx
+  on public.adconversion_agents_chats (user_id, updated_at desc);
+
+alter table public.chat_responses
+  add column role text not null default 'assistant' check (role in ('user', 'assistant'));
+
+create index chat_responses_conversation_id_idx
+  on public.chat_responses (conversation_id, id);
+
+-- Keeps the conversation list ordered by activity and titles a chat after
+-- its first message
+create or replace function public.touch_agent_chat()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.adconversion_agents_chats
+     set updated_at = now(),
+         title = case when new.role = 'user' then coalesce(title, left(new.content, 80)) else title end
+   where id = new.conversation_id;
+  return new;
+end;
+$$;
+
+create trigger on_chat_response_touch_chat
+  after insert on public.chat_responses
+  for each row execute function public.touch_agent_chat();
+
+-- Every staff role can chat, so every staff role needs the agents to pick
+-- from; the directory itself stays with account managers.
+create policy "Staff can view agents to chat with"
+  on public.adconversion_agents for select
+  to authenticated
+  using (
+    public.has_any_role(
+      auth.uid(),
+      array['guard', 'supervisor', 'account_manager', 'admin']::public.app_role[]
+    )
+  );
+
+alter table public.adconversion_agents_chats enable row level security;
+
+create policy "Users can view their own chats"
+  on public.adconversion_agents_chats for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Staff can start chats"
+  on public.adconversion_agents_chats for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and public.has_any_role(
+      auth.uid(),
+      array['guard', 'supervisor', 'account_manager', 'admin']::public.app_role[]
+    )
+  );
+
+create policy "Users can update their own chats"
+  on public.adconversion_agents_chats for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter table public.chat_responses enable row level security;
+
+create or replace function public.owns_agent_chat(_conversation_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.adconversion_agents_chats
+    where id = _conversation_id and user_id = auth.uid()
+  )
+$$;
+
+create policy "Users can view messages in their chats"
+  on public.chat_responses for select
+  to authenticated
+  using (public.owns_agent_chat(conversation_id));
+
+-- Users only write their own side of the conversation. Replies are written
+-- by the assistant backend (the assistant service, or the chat-echo edge
+-- function) with the service role, which bypasses these policies.
+create policy "Users can add messages to their chats"
+  on public.chat_responses for insert
+  to authenticated
+  with check (role = 'user' and public.owns_agent_chat(conversation_id));
+
+-- Replies are delivered to the chat page through Supabase realtime
+alter publication supabase_realtime add table public.chat_responses;
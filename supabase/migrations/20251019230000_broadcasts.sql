@@ -0,0 +1,56 @@
+-- Broadcasts are chat_responses rows with is_broadcast set: announcements
+-- shown to every member of staff rather than belonging to one conversation.
+alter table public.chat_responses
+  alter column conversation_id drop not null,
+  add column created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  add constraint chat_responses_conversation_or_broadcast
+    check (conversation_id is not null or is_broadcast);
+
+create index chat_responses_broadcast_idx
+  on public.chat_responses (id desc)
+  where is_broadcast;
+
+create policy "Staff can view broadcasts"
+  on public.chat_responses for select
+  to authenticated
+  using (
+    is_broadcast
+    and public.has_any_role(auth.uid(), array['guard', 'supervisor', 'account_manager', 'admin']::public.app_role[])
+  );
+
+-- A chat message must not be able to pass itself off as a broadcast
+drop policy "Users can add messages to their chats" on public.chat_responses;
+
+create policy "Users can add messages to their chats"
+  on public.chat_responses for insert
+  to authenticated
+  with check (
+    role = 'user'
+    and not coalesce(is_broadcast, false)
+    and public.owns_agent_chat(conversation_id)
+  );
+
+create policy "Admins can send broadcasts"
+  on public.chat_responses for insert
+  to authenticated
+  with check (is_broadcast and created_by = auth.uid() and public.has_role(auth.uid(), 'admin'));
+
+-- Which broadcasts each user has read
+create table public.broadcast_reads (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  message_id bigint not null references public.chat_responses (id) on delete cascade,
+  read_at timestamptz not null default now(),
+  primary key (user_id, message_id)
+);
+
+alter table public.broadcast_reads enable row level security;
+
+create policy "Users can view their own broadcast reads"
+  on public.broadcast_reads for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can mark broadcasts read"
+  on public.broadcast_reads for insert
+  to authenticated
+  with check (user_id = auth.uid());
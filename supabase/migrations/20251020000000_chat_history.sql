@@ -0,0 +1,65 @@
+-- Conversation history: full-text search over messages, and supervisors and
+-- admins can review everyone's conversations, not only their own.
+alter table public.chat_responses
+  add column content_search tsvector
+    generated always as (to_tsvector('english', content)) stored;
+
+create index chat_responses_content_search_idx
+  on public.chat_responses using gin (content_search);
+
+create or replace function public.can_view_agent_chat(_conversation_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.owns_agent_chat(_conversation_id)
+    or public.has_any_role(auth.uid(), array['supervisor', 'admin']::public.app_role[])
+$$;
+
+drop policy "Users can view their own chats" on public.adconversion_agents_chats;
+
+create policy "Users can view their own chats and managers all chats"
+  on public.adconversion_agents_chats for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or public.has_any_role(auth.uid(), array['supervisor', 'admin']::public.app_role[])
+  );
+
+drop policy "Users can view messages in their chats" on public.chat_responses;
+
+create policy "Users can view messages in chats they can view"
+  on public.chat_responses for select
+  to authenticated
+  using (public.can_view_agent_chat(conversation_id));
+
+-- Conversations with a message matching a search, most recently active first,
+-- with how many messages matched and the earliest of them. The agent and
+-- start date filters apply to the conversation before the limit, so matches
+-- are never cut off by messages from chats that are filtered out. Runs as the
+-- caller, so only conversations they can view are searched.
+create or replace function public.search_agent_chats(
+  _search text,
+  _assistant_id text default null,
+  _created_from timestamptz default null,
+  _created_before timestamptz default null,
+  _limit integer default 200
+)
+returns table (conversation_id bigint, match_count bigint, first_match text)
+language sql
+stable
+set search_path = public
+as $$
+  select r.conversation_id, count(*), (array_agg(r.content order by r.id))[1]
+  from public.chat_responses r
+  join public.adconversion_agents_chats c on c.id = r.conversation_id
+  where r.content_search @@ websearch_to_tsquery('english', _search)
+    and (_assistant_id is null or c.assistant_id = _assistant_id)
+    and (_created_from is null or c.created_at >= _created_from)
+    and (_created_before is null or c.created_at < _created_before)
+  group by r.conversation_id, c.updated_at
+  order by c.updated_at desc
+  limit _limit
+$$;
@@ -0,0 +1,36 @@
+-- The incidents retrieved for a question (via match_chat_context) are stored
+-- on the user's message, so the reply's citations can be shown and followed
+-- later. An array of {"documentId", "label"} objects, in citation order.
+alter table public.chat_responses
+  add column context_documents jsonb;
+
+-- Incidents for a chat question. Every staff role can chat but account
+-- managers cannot read documents, so, like match_documents, this runs with
+-- the owner's privileges and checks the caller itself. It returns only what
+-- the assistant needs: the start of each incident and its metadata.
+create function public.match_chat_context(query_embedding vector, match_count int default 5)
+returns table (id bigint, snippet text, metadata jsonb, similarity float)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_any_role(
+    auth.uid(),
+    array['guard', 'supervisor', 'account_manager', 'admin']::public.app_role[]
+  ) then
+    raise exception 'Not allowed to chat with agents' using errcode = '42501';
+  end if;
+
+  return query
+    select d.id, left(d.content, 1000), d.metadata, 1 - (d.embedding <=> query_embedding) as similarity
+    from public.documents d
+    where d.embedding is not null
+    order by d.embedding <=> query_embedding
+    limit least(coalesce(match_count, 5), 20);
+end;
+$$;
+
+revoke execute on function public.match_chat_context(vector, integer) from public, anon;
+grant execute on function public.match_chat_context(vector, integer) to authenticated;
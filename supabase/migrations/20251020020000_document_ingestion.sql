@@ -0,0 +1,48 @@
+-- Let admins add documents from the app (src/lib/documentIngest.ts). Each
+-- row gets a hash of its content so re-importing the same file or CSV row
+-- can be detected before it is embedded again.
+alter table public.documents
+  add column content_hash text;
+
+create or replace function public.set_document_content_hash()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.content_hash := case
+    when new.content is null then null
+    else encode(sha256(convert_to(new.content, 'UTF8')), 'hex')
+  end;
+  return new;
+end;
+$$;
+
+create trigger documents_set_content_hash
+  before insert or update of content on public.documents
+  for each row execute function public.set_document_content_hash();
+
+-- Backfill the hash on its own: setting content would re-run every trigger
+-- on documents and rewrite each row's incident fields
+update public.documents
+  set content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+  where content is not null;
+
+-- Content stored more than once before now keeps its hash on the oldest row
+-- only; the later copies are left in place, just without a hash
+update public.documents d
+  set content_hash = null
+  where exists (
+    select 1 from public.documents earlier
+    where earlier.content_hash = d.content_hash and earlier.id < d.id
+  );
+
+-- Imports insert with on conflict (content_hash) do nothing, so a chunk
+-- stored by someone else since the duplicate check is skipped, not doubled
+create unique index documents_content_hash_key on public.documents (content_hash);
+
+grant select (content_hash) on public.documents to authenticated;
+
+create policy "Admins can add documents"
+  on public.documents for insert
+  to authenticated
+  with check (public.has_role(auth.uid(), 'admin'));